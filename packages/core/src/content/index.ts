@@ -0,0 +1,27 @@
+export {
+  cardDefinitionSchema,
+  cardFileSchema,
+  type CardDefinition,
+  type CardUpgrade,
+  type CardFile
+} from './schema';
+
+export {
+  loadCards,
+  loadCardsFromJson,
+  loadDefinitions,
+  cardFromDefinition,
+  formatPath,
+  type ContentError,
+  type LoadCardsResult,
+  type LoadDefinitionsResult
+} from './loader';
+
+export {
+  CardLibrary,
+  definitionAtLevel,
+  type CardInstanceData,
+  type InstanceOptions
+} from './library';
+
+export { serializeEffect, serializeCard } from './serializer';
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { MoveCardEffect } from '../effects/primitives';
+import { createContext, createPlayer, createState } from '../testing/fixtures';
+import { CardLibrary, definitionAtLevel } from './library';
+import { loadDefinitions } from './loader';
+import { CardDefinition } from './schema';
+
+const strike: CardDefinition = {
+  id: 'strike',
+  name: 'Strike',
+  cost: 1,
+  effects: [{ type: 'damage', amount: 6, target: 'opponent' }],
+  upgrades: [
+    { effects: [{ type: 'damage', amount: 9, target: 'opponent' }] },
+    { name: 'Perfect Strike', cost: 0 }
+  ]
+};
+
+const defend: CardDefinition = {
+  id: 'defend',
+  name: 'Defend',
+  cost: 1,
+  effects: [{ type: 'gainBlock', amount: 5, target: 'self' }],
+  tags: ['skill']
+};
+
+describe('CardLibrary', () => {
+  it('should read a definition at each upgrade level', () => {
+    expect(definitionAtLevel(strike, 0)).to.deep.equal({ id: 'strike', name: 'Strike', cost: 1, effects: strike.effects });
+    expect(definitionAtLevel(strike, 1).name).to.equal('Strike+');
+    expect(definitionAtLevel(strike, 1).effects).to.deep.equal([{ type: 'damage', amount: 9, target: 'opponent' }]);
+    expect(definitionAtLevel(strike, 2)).to.include({ name: 'Perfect Strike', cost: 0 });
+    expect(() => definitionAtLevel(strike, 3)).to.throw('Card strike has no upgrade level 3');
+  });
+
+  it('should make instances with their own ids', () => {
+    const library = new CardLibrary([strike, defend]);
+    const first = library.instantiate('strike');
+    const second = library.instantiate('strike');
+
+    expect(first.id).to.not.equal(second.id);
+    expect(first).to.include({ definitionId: 'strike', upgrades: 0, name: 'Strike', cost: 1 });
+    expect(first.modifications).to.deep.equal([]);
+    expect(first.effects[0].description).to.equal('Deal 6 damage to opponent');
+    expect(() => library.instantiate('bash')).to.throw('Unknown card: bash');
+    expect(() => new CardLibrary([strike, strike])).to.throw('Card strike is defined more than once');
+  });
+
+  it('should upgrade and modify a copy without touching the definition', () => {
+    const library = new CardLibrary([strike, defend]);
+    const instance = library.instantiate('strike', { id: 'strike-1' });
+    const upgraded = library.upgrade(instance);
+
+    expect(upgraded).to.include({ id: 'strike-1', name: 'Strike+', upgrades: 1 });
+    expect(upgraded.effects[0].description).to.equal('Deal 9 damage to opponent');
+    expect(library.definitionOf(upgraded).name).to.equal('Strike+');
+    expect(library.get('strike')).to.equal(strike);
+
+    const modified = library.modify(upgraded, { source: 'relic:whetstone', cost: 0, tags: ['sharp'] });
+    expect(modified).to.include({ cost: 0, upgrades: 1 });
+    expect(modified.tags).to.deep.equal(['sharp']);
+    expect(library.restore(library.toData(modified))).to.deep.include(library.toData(modified));
+
+    const perfect = library.upgrade(upgraded);
+    expect(library.canUpgrade(perfect)).to.be.false;
+    expect(() => library.upgrade(perfect)).to.throw('Card strike has no upgrade level 3');
+  });
+
+  it('should let effects work on instances', () => {
+    const library = new CardLibrary([strike, defend]);
+    const hand = [library.instantiate('defend', { id: 'd1' }), library.instantiate('defend', { id: 'd2' })];
+    const context = createContext(createState(createPlayer('p1', { hand }), createPlayer('p2')));
+
+    const result = new MoveCardEffect('hand', 'discard', 1, 'top').execute(context);
+
+    expect(result.newState.players['p1'].discardPile).to.deep.equal([hand[1]]);
+    expect(result.newState.players['p1'].discardPile[0]).to.include({ definitionId: 'defend', upgrades: 0 });
+  });
+
+  it('should load definitions with upgrades from content', () => {
+    const loaded = loadDefinitions({ cards: [strike, defend] });
+    expect(loaded.success).to.be.true;
+
+    const invalid = loadDefinitions({ cards: [{ ...strike, upgrades: [{ cost: -1 }] }] });
+    expect(invalid.success === false && invalid.errors[0].path).to.equal('cards[0].upgrades[0].cost');
+  });
+});
@@ -0,0 +1,127 @@
+import { nanoid } from 'nanoid';
+import { CardInstance, CardModification } from '../effects/Effect';
+import { EffectRegistryTag, defaultContext } from '../effects/Context';
+import { EffectRegistry } from '../effects/EffectRegistry';
+import { cardFromDefinition } from './loader';
+import { CardDefinition } from './schema';
+
+/**
+ * What is needed to rebuild a card instance from its library, e.g. in a saved deck.
+ */
+export interface CardInstanceData {
+  readonly id: string;
+  readonly definitionId: string;
+  readonly upgrades: number;
+  readonly modifications: readonly CardModification[];
+}
+
+export interface InstanceOptions {
+  /** Defaults to a new nanoid. */
+  readonly id?: string;
+  readonly upgrades?: number;
+  readonly modifications?: readonly CardModification[];
+}
+
+/**
+ * The definition as it reads at an upgrade level, without its upgrades.
+ */
+export function definitionAtLevel(definition: CardDefinition, level: number): CardDefinition {
+  const upgrades = definition.upgrades ?? [];
+  if (!Number.isInteger(level) || level < 0 || level > upgrades.length) {
+    throw new Error(`Card ${definition.id} has no upgrade level ${level}`);
+  }
+
+  const { upgrades: _, ...base } = definition;
+  return upgrades.slice(0, level).reduce<CardDefinition>((current, upgrade) => ({
+    ...current,
+    name: upgrade.name ?? `${current.name}+`,
+    cost: upgrade.cost ?? current.cost,
+    effects: upgrade.effects ?? current.effects,
+    tags: upgrade.tags ?? current.tags
+  }), base);
+}
+
+/**
+ * The card definitions of a game, and the instances made from them. Definitions
+ * never change; each copy in a deck is its own instance with its own id.
+ */
+export class CardLibrary {
+  private readonly definitions = new Map<string, CardDefinition>();
+
+  constructor(
+    definitions: readonly CardDefinition[],
+    private readonly registry: EffectRegistry = defaultContext.provide(EffectRegistryTag)
+  ) {
+    for (const definition of definitions) {
+      if (this.definitions.has(definition.id)) {
+        throw new Error(`Card ${definition.id} is defined more than once`);
+      }
+      this.definitions.set(definition.id, definition);
+    }
+  }
+
+  has(definitionId: string): boolean {
+    return this.definitions.has(definitionId);
+  }
+
+  get(definitionId: string): CardDefinition {
+    const definition = this.definitions.get(definitionId);
+    if (!definition) {
+      throw new Error(`Unknown card: ${definitionId}`);
+    }
+    return definition;
+  }
+
+  list(): CardDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * The definition an instance was made from, at the instance's upgrade level, for showing its text.
+   */
+  definitionOf(instance: CardInstance): CardDefinition {
+    return definitionAtLevel(this.get(instance.definitionId), instance.upgrades);
+  }
+
+  instantiate(definitionId: string, options: InstanceOptions = {}): CardInstance {
+    return this.restore({
+      id: options.id ?? nanoid(),
+      definitionId,
+      upgrades: options.upgrades ?? 0,
+      modifications: options.modifications ?? []
+    });
+  }
+
+  canUpgrade(instance: CardInstance): boolean {
+    return instance.upgrades < (this.get(instance.definitionId).upgrades?.length ?? 0);
+  }
+
+  /** The same copy at the next upgrade level. */
+  upgrade(instance: CardInstance): CardInstance {
+    return this.restore({ ...this.toData(instance), upgrades: instance.upgrades + 1 });
+  }
+
+  modify(instance: CardInstance, modification: CardModification): CardInstance {
+    return this.restore({ ...this.toData(instance), modifications: [...instance.modifications, modification] });
+  }
+
+  toData(instance: CardInstance): CardInstanceData {
+    return {
+      id: instance.id,
+      definitionId: instance.definitionId,
+      upgrades: instance.upgrades,
+      modifications: instance.modifications
+    };
+  }
+
+  restore(data: CardInstanceData): CardInstance {
+    const card = cardFromDefinition(definitionAtLevel(this.get(data.definitionId), data.upgrades), this.registry);
+    const modified = data.modifications.reduce((current, modification) => ({
+      ...current,
+      cost: modification.cost ?? current.cost,
+      tags: modification.tags ? [...current.tags, ...modification.tags] : current.tags
+    }), card);
+
+    return { ...modified, ...data };
+  }
+}
@@ -0,0 +1,166 @@
+import { expect } from 'chai';
+import { z } from 'zod';
+import { Effect, EffectResult, GameContext } from '../effects/Effect';
+import { EffectRegistry } from '../effects/EffectRegistry';
+import { DamageEffect, DrawCardEffect } from '../effects/primitives';
+import { ResourceRegistry } from '../effects/Resource';
+import { loadCards, loadCardsFromJson } from './loader';
+import { serializeCard, serializeEffect } from './serializer';
+
+const cardFile = {
+  cards: [
+    {
+      id: 'strike',
+      name: 'Strike',
+      cost: 1,
+      effects: [{ type: 'damage', amount: 6, target: 'opponent' }]
+    },
+    {
+      id: 'desperate-measures',
+      name: 'Desperate Measures',
+      cost: { energy: 2, mana: 1 },
+      effects: [
+        {
+          type: 'sequential',
+          effects: [
+            { type: 'draw', count: 2, target: 'self' },
+            {
+              type: 'conditional',
+              condition: { stat: 'health', compare: 'lt', value: 10 },
+              effect: { type: 'repeated', times: 2, effect: { type: 'heal', amount: 3, target: 'self' } }
+            }
+          ]
+        }
+      ],
+      tags: ['skill']
+    }
+  ]
+};
+
+/** Declares the mana the file's cards cost. */
+const resources = ResourceRegistry.withBuiltins().register({ id: 'mana', name: 'Mana' });
+
+describe('Card loading', () => {
+  it('should build cards from a valid file', () => {
+    const result = loadCards(cardFile, undefined, resources);
+    expect(result.success).to.be.true;
+    const cards = result.success === true ? result.cards : [];
+
+    expect(cards.map(c => c.id)).to.deep.equal(['strike', 'desperate-measures']);
+    expect(cards[0].effects[0]).to.be.instanceOf(DamageEffect);
+    expect(cards[1].tags).to.deep.equal(['skill']);
+  });
+
+  it('should round-trip cards through the serializer', () => {
+    const result = loadCards(cardFile, undefined, resources);
+    const cards = result.success === true ? result.cards : [];
+
+    const serialized = { cards: cards.map(card => serializeCard(card)) };
+    expect(serialized.cards[1].effects).to.deep.equal(cardFile.cards[1].effects);
+    expect(loadCardsFromJson(JSON.stringify(serialized), undefined, resources).success).to.be.true;
+  });
+
+  it('should report validation errors by path', () => {
+    const result = loadCards({
+      cards: [
+        { id: 'a', name: 'A', cost: 1, effects: [{ type: 'damage', amount: -1 }] },
+        { id: 'b', name: 'B', cost: 1, effects: [{ type: 'sequential', effects: [{ type: 'explode' }] }] }
+      ]
+    });
+
+    const errors = result.success === false ? result.errors : [];
+    expect(errors.map(e => e.path)).to.have.members([
+      'cards[0].effects[0].amount',
+      'cards[1].effects[0].effects[0].type'
+    ]);
+  });
+
+  it('should reject duplicate card ids', () => {
+    const result = loadCards({ cards: [cardFile.cards[0], cardFile.cards[0]] });
+
+    const errors = result.success === false ? result.errors : [];
+    expect(errors).to.deep.equal([{ path: 'cards[1].id', message: 'Duplicate card id: strike' }]);
+  });
+
+  it('should catch unknown resource names', () => {
+    expect(loadCards(cardFile, undefined, resources).success).to.be.true;
+    const undeclared = loadCards(cardFile);
+    expect(undeclared.success === false && undeclared.errors).to.deep.equal([
+      { path: 'cards[1].cost.mana', message: 'Unknown resource: mana' }
+    ]);
+
+    const result = loadCards({
+      cards: [
+        { id: 'a', name: 'A', cost: { enrgy: 1 }, effects: [{ type: 'resource', resource: 'mana', amount: 1 }] },
+        { id: 'b', name: 'B', cost: 1, effects: [{ type: 'draw', count: { kind: 'stat', stat: 'resource', resource: 'manna' } }] }
+      ]
+    }, undefined, resources);
+
+    const errors = result.success === false ? result.errors : [];
+    expect(errors).to.deep.equal([
+      { path: 'cards[0].cost.enrgy', message: 'Unknown resource: enrgy' },
+      { path: 'cards[1].effects[0].count.resource', message: 'Unknown resource: manna' }
+    ]);
+  });
+
+  it('should report malformed JSON', () => {
+    const result = loadCardsFromJson('{ cards: ');
+    expect(result.success).to.be.false;
+  });
+
+  it('should refuse to serialize effects that hold code', () => {
+    const conditional = new DrawCardEffect(1).conditional(() => true);
+    expect(() => serializeEffect(conditional)).to.throw(/code predicate/);
+    expect(() => serializeEffect(new DamageEffect(1).chain(() => Effect.all([])))).to.throw(/'chained'/);
+  });
+});
+
+describe('EffectRegistry', () => {
+  class PoisonEffect extends Effect {
+    readonly type = 'poison';
+    readonly description: string;
+
+    constructor(readonly amount: number) {
+      super();
+      this.description = `Poison for ${amount}`;
+    }
+
+    execute(context: GameContext): EffectResult {
+      return new DamageEffect(this.amount).execute(context);
+    }
+  }
+
+  const poisonEntry = {
+    type: 'poison',
+    description: 'Deals poison damage',
+    params: z.object({ amount: z.number().int().positive() }),
+    create: (p: { amount: number }) => new PoisonEffect(p.amount),
+    serialize: (e: PoisonEffect) => ({ amount: e.amount })
+  };
+
+  it('should load cards that use plugin effect types', () => {
+    const registry = EffectRegistry.withBuiltins().register(poisonEntry);
+    const file = {
+      cards: [{ id: 'venom', name: 'Venom', cost: 1, effects: [{ type: 'repeated', times: 2, effect: { type: 'poison', amount: 3 } }] }]
+    };
+
+    const result = loadCards(file, registry);
+    const cards = result.success === true ? result.cards : [];
+    expect(cards[0].effects[0].description).to.equal('Repeat 2x: Poison for 3');
+    expect(serializeCard(cards[0], registry).effects).to.deep.equal(file.cards[0].effects);
+
+    expect(loadCards(file).success).to.be.false;
+  });
+
+  it('should fail clearly on duplicate or unknown types', () => {
+    const registry = EffectRegistry.withBuiltins();
+    expect(() => registry.register({ ...poisonEntry, type: 'damage' })).to.throw('Effect type already registered: damage');
+    expect(() => registry.get('poison')).to.throw(/Unknown effect type: poison/);
+    expect(() => registry.create({ type: 'damage', amount: 'lots' })).to.throw(/amount: Expected number/);
+  });
+
+  it('should list registered types with their descriptions', () => {
+    const types = EffectRegistry.withBuiltins().list().map(info => info.type);
+    expect(types).to.include.members(['damage', 'heal', 'draw', 'resource', 'sequential', 'parallel', 'conditional', 'repeated']);
+  });
+});
@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { Card } from '../effects/Effect';
+import { EffectRegistryTag, ResourceRegistryTag, defaultContext } from '../effects/Context';
+import { EffectRegistry } from '../effects/EffectRegistry';
+import { ResourceRegistry } from '../effects/Resource';
+import { CardDefinition, cardFileSchema } from './schema';
+
+export interface ContentError {
+  /** Location of the problem inside the loaded document, e.g. `cards[2].effects[0].amount`. */
+  readonly path: string;
+  readonly message: string;
+}
+
+export type LoadCardsResult =
+  | { readonly success: true; readonly cards: Card[] }
+  | { readonly success: false; readonly errors: ContentError[] };
+
+export type LoadDefinitionsResult =
+  | { readonly success: true; readonly definitions: CardDefinition[] }
+  | { readonly success: false; readonly errors: ContentError[] };
+
+export function cardFromDefinition(
+  definition: CardDefinition,
+  registry: EffectRegistry = defaultContext.provide(EffectRegistryTag)
+): Card {
+  return {
+    id: definition.id,
+    name: definition.name,
+    cost: definition.cost,
+    effects: definition.effects.map(effect => registry.build(effect)),
+    tags: definition.tags ?? []
+  };
+}
+
+export function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((result, segment) =>
+    typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment, '');
+}
+
+function toContentErrors(error: z.ZodError): ContentError[] {
+  return error.issues.map(issue => ({
+    path: formatPath(issue.path),
+    message: issue.message
+  }));
+}
+
+/**
+ * Finds resource names that are not declared: cost keys, and every `resource`
+ * parameter of the effects, values and upgrades.
+ */
+function checkResources(definitions: CardDefinition[], resources: ResourceRegistry): ContentError[] {
+  const errors: ContentError[] = [];
+  const check = (name: string, path: (string | number)[]): void => {
+    if (!resources.has(name)) {
+      errors.push({ path: formatPath(path), message: `Unknown resource: ${name}` });
+    }
+  };
+  const visit = (value: unknown, path: (string | number)[]): void => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, index]));
+      return;
+    }
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (key === 'resource' && typeof item === 'string') {
+        check(item, [...path, key]);
+      } else if (key === 'cost' && item && typeof item === 'object') {
+        Object.keys(item).forEach(name => check(name, [...path, key, name]));
+      } else {
+        visit(item, [...path, key]);
+      }
+    }
+  };
+
+  definitions.forEach((definition, index) => visit(definition, ['cards', index]));
+  return errors;
+}
+
+/**
+ * Validates an already parsed card file and returns its definitions, e.g. for a `CardLibrary`.
+ * Every resource the cards name has to be declared in `resources`, the built-in ones by default.
+ */
+export function loadDefinitions(
+  input: unknown,
+  registry: EffectRegistry = defaultContext.provide(EffectRegistryTag),
+  resources: ResourceRegistry = defaultContext.provide(ResourceRegistryTag)
+): LoadDefinitionsResult {
+  const parsed = cardFileSchema(registry.schema).safeParse(input);
+  if (!parsed.success) {
+    return { success: false, errors: toContentErrors(parsed.error) };
+  }
+
+  const unknown = checkResources(parsed.data.cards, resources);
+  if (unknown.length > 0) {
+    return { success: false, errors: unknown };
+  }
+
+  return { success: true, definitions: parsed.data.cards };
+}
+
+/**
+ * Validates an already parsed card file (from JSON, YAML or any other source) and builds its cards.
+ */
+export function loadCards(
+  input: unknown,
+  registry: EffectRegistry = defaultContext.provide(EffectRegistryTag),
+  resources: ResourceRegistry = defaultContext.provide(ResourceRegistryTag)
+): LoadCardsResult {
+  const loaded = loadDefinitions(input, registry, resources);
+  if (!loaded.success) {
+    return loaded;
+  }
+
+  return { success: true, cards: loaded.definitions.map(card => cardFromDefinition(card, registry)) };
+}
+
+export function loadCardsFromJson(
+  json: string,
+  registry: EffectRegistry = defaultContext.provide(EffectRegistryTag),
+  resources: ResourceRegistry = defaultContext.provide(ResourceRegistryTag)
+): LoadCardsResult {
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [{ path: '', message: `Invalid JSON: ${(error as Error).message}` }]
+    };
+  }
+
+  return loadCards(input, registry, resources);
+}
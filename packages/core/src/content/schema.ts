@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { EffectDefinition } from '../effects/EffectRegistry';
+
+export interface CardDefinition {
+  readonly id: string;
+  readonly name: string;
+  readonly cost: number | Readonly<Record<string, number | 'X'>>;
+  readonly effects: EffectDefinition[];
+  readonly tags?: string[];
+  /** Upgrade levels in order. Each one changes the level before it. */
+  readonly upgrades?: CardUpgrade[];
+}
+
+/**
+ * What an upgrade level replaces. The name defaults to the previous name with a '+'.
+ */
+export interface CardUpgrade {
+  readonly name?: string;
+  readonly cost?: CardDefinition['cost'];
+  readonly effects?: EffectDefinition[];
+  readonly tags?: string[];
+}
+
+export interface CardFile {
+  readonly cards: CardDefinition[];
+}
+
+const count = z.number().int().nonnegative();
+const cost = z.union([count, z.record(z.string().min(1), z.union([count, z.literal('X')]))]);
+
+/**
+ * Card schemas take the effect schema of an `EffectRegistry`, so that effects
+ * are validated against whichever types the registry knows about.
+ */
+export function cardDefinitionSchema(effect: z.ZodType<EffectDefinition>): z.ZodType<CardDefinition> {
+  return z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    cost,
+    effects: z.array(effect),
+    tags: z.array(z.string()).optional(),
+    upgrades: z.array(z.object({
+      name: z.string().min(1).optional(),
+      cost: cost.optional(),
+      effects: z.array(effect).optional(),
+      tags: z.array(z.string()).optional()
+    })).optional()
+  });
+}
+
+export function cardFileSchema(effect: z.ZodType<EffectDefinition>): z.ZodType<CardFile> {
+  return z.object({
+    cards: z.array(cardDefinitionSchema(effect))
+  }).superRefine((file, ctx) => {
+    const seen = new Set<string>();
+    file.cards.forEach((card, index) => {
+      if (seen.has(card.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate card id: ${card.id}`,
+          path: ['cards', index, 'id']
+        });
+      }
+      seen.add(card.id);
+    });
+  });
+}
@@ -0,0 +1,28 @@
+import { Card, Effect } from '../effects/Effect';
+import { EffectRegistryTag, defaultContext } from '../effects/Context';
+import { EffectDefinition, EffectRegistry } from '../effects/EffectRegistry';
+import { CardDefinition } from './schema';
+
+/**
+ * Turns an effect tree back into its declarative form. Throws for effects that hold
+ * code, such as chained effects or conditionals with a hand-written predicate.
+ */
+export function serializeEffect(
+  effect: Effect,
+  registry: EffectRegistry = defaultContext.provide(EffectRegistryTag)
+): EffectDefinition {
+  return registry.serialize(effect);
+}
+
+export function serializeCard(
+  card: Card,
+  registry: EffectRegistry = defaultContext.provide(EffectRegistryTag)
+): CardDefinition {
+  return {
+    id: card.id,
+    name: card.name,
+    cost: card.cost,
+    effects: card.effects.map(effect => registry.serialize(effect)),
+    tags: card.tags
+  };
+}
@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import { Card, Effect, GameContext } from './Effect';
+import { ChoiceQueue, checkAnswer } from './Choice';
+import { ChooseTargetEffect, DamageEffect, DiscardEffect, GainBlockEffect } from './primitives';
+import { createCard, createContext, createPlayer, createState } from '../testing/fixtures';
+
+const card = (id: string): Card => createCard(id, { name: id.toUpperCase() });
+
+const gameState = createState(
+  createPlayer('p1', { health: 30, maxHealth: 30, hand: [card('a'), card('b'), card('c')] }),
+  createPlayer('p2', { health: 30, maxHealth: 30 }),
+  createPlayer('p3', { health: 30, maxHealth: 30 })
+);
+
+const context = (...answers: string[][]): GameContext => createContext(gameState, { choices: new ChoiceQueue(answers) });
+
+describe('Choices', () => {
+  it('should stop with a serializable choice until it is answered', () => {
+    const effect = new DiscardEffect(2);
+    const pending = effect.execute(context());
+
+    expect(pending.success).to.be.false;
+    expect(pending.newState).to.equal(gameState);
+    expect(JSON.parse(JSON.stringify(pending.pending))).to.deep.equal({
+      playerId: 'p1',
+      kind: 'card',
+      prompt: 'Discard 2 cards',
+      options: [{ id: 'a', label: 'A' }, { id: 'b', label: 'B' }, { id: 'c', label: 'C' }],
+      min: 2,
+      max: 2
+    });
+
+    const result = effect.execute(context(['c', 'a']));
+    expect(result.success).to.be.true;
+    expect(result.value!.map(c => c.id)).to.deep.equal(['a', 'c']);
+    expect(result.newState.players['p1'].hand.map(c => c.id)).to.deep.equal(['b']);
+    expect(result.newState.players['p1'].discardPile).to.have.length(2);
+  });
+
+  it('should take answers in the order the choices come up', () => {
+    const effect = Effect.sequence([
+      new ChooseTargetEffect(new DamageEffect(4, 'chosen')),
+      new GainBlockEffect(3),
+      new ChooseTargetEffect(new DamageEffect(2, 'chosen'))
+    ], 'continue');
+
+    const second = effect.execute(context(['p3']));
+    expect(second.pending!.options.map(o => o.id)).to.deep.equal(['p2', 'p3']);
+    expect(second.newState).to.equal(gameState);
+
+    const done = effect.execute(context(['p3'], ['p2']));
+    expect(done.success).to.be.true;
+    expect(done.newState.players['p3'].health).to.equal(26);
+    expect(done.newState.players['p2'].health).to.equal(28);
+  });
+
+  it('should stop a generator at a choice after its first step and resume it from the start', () => {
+    const effect = Effect.gen(function* () {
+      const block = yield* new GainBlockEffect(3);
+      const discarded = yield* new DiscardEffect(1);
+      return block + discarded.length;
+    });
+
+    const pending = effect.execute(context());
+    expect(pending.success).to.be.false;
+    expect(pending.pending!.prompt).to.equal('Discard 1 card');
+    expect(pending.newState).to.equal(gameState);
+
+    const done = effect.execute(context(['b']));
+    expect(done.success).to.be.true;
+    expect(done.value).to.equal(4);
+    expect(done.newState.players['p1'].block).to.equal(3);
+    expect(done.newState.players['p1'].hand.map(c => c.id)).to.deep.equal(['a', 'c']);
+  });
+
+  it('should check answers against the options and limits', () => {
+    const choice = { playerId: 'p1', kind: 'option' as const, prompt: 'Pick', options: [{ id: 'x', label: 'X' }, { id: 'y', label: 'Y' }], min: 1, max: 1 };
+
+    expect(checkAnswer(choice, ['y'])).to.be.undefined;
+    expect(checkAnswer(choice, ['z'])).to.equal('Not one of the options: z');
+    expect(checkAnswer(choice, ['x', 'y'])).to.equal('Pick exactly 1 (got 2)');
+    expect(checkAnswer(choice, ['x', 'x'])).to.equal('The same option was picked more than once');
+    expect(new DiscardEffect(1).execute(context(['z'])).success).to.be.false;
+  });
+});
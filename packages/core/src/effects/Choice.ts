@@ -0,0 +1,76 @@
+import { EffectResult, GameContext } from './Effect';
+
+export interface ChoiceOption {
+  readonly id: string;
+  readonly label: string;
+}
+
+/**
+ * A decision an effect is waiting on. Plain data, so any client can show and answer it.
+ */
+export interface PendingChoice {
+  /** Player who has to answer. */
+  readonly playerId: string;
+  /** What the options refer to, so clients can render them. */
+  readonly kind: 'card' | 'player' | 'option';
+  readonly prompt: string;
+  readonly options: readonly ChoiceOption[];
+  /** Number of options to pick, inclusive. */
+  readonly min: number;
+  readonly max: number;
+}
+
+/** Ids of the picked options. */
+export type ChoiceAnswer = readonly string[];
+
+/**
+ * Answers given so far for one resolution. Effects take them in the order their
+ * choices come up, so resolving again with the same answers reaches the same point.
+ */
+export class ChoiceQueue {
+  private position = 0;
+
+  constructor(private readonly answers: readonly ChoiceAnswer[] = []) {}
+
+  next(): ChoiceAnswer | undefined {
+    return this.answers[this.position++];
+  }
+}
+
+/**
+ * Takes the answer to the next choice from the context, or undefined when the
+ * effect has to stop and return `awaitChoice`.
+ */
+export function nextAnswer(context: GameContext): ChoiceAnswer | undefined {
+  return context.choices?.next();
+}
+
+export function awaitChoice(choice: PendingChoice, context: GameContext): EffectResult<never> {
+  return {
+    success: false,
+    newState: context.gameState,
+    messages: [`Waiting for ${choice.playerId}: ${choice.prompt}`],
+    patches: [],
+    inversePatches: [],
+    pending: choice
+  };
+}
+
+/**
+ * Returns what is wrong with an answer, or undefined when it is valid.
+ */
+export function checkAnswer(choice: PendingChoice, answer: ChoiceAnswer): string | undefined {
+  if (new Set(answer).size !== answer.length) {
+    return 'The same option was picked more than once';
+  }
+  const unknown = answer.find(id => !choice.options.some(option => option.id === id));
+  if (unknown !== undefined) {
+    return `Not one of the options: ${unknown}`;
+  }
+  if (answer.length < choice.min || answer.length > choice.max) {
+    return choice.min === choice.max ?
+      `Pick exactly ${choice.min} (got ${answer.length})` :
+      `Pick between ${choice.min} and ${choice.max} (got ${answer.length})`;
+  }
+  return undefined;
+}
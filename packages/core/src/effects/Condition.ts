@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { GameContext } from './Effect';
+import { resolveTargets } from './Target';
+import { readStat } from './Value';
+
+export type ConditionDefinition = {
+  readonly stat: 'health' | 'maxHealth' | 'handSize' | 'deckSize' | 'discardSize' | 'resource';
+  readonly resource?: string;
+  readonly player?: 'self' | 'opponent';
+  readonly compare: 'lt' | 'lte' | 'eq' | 'gte' | 'gt';
+  readonly value: number;
+};
+
+export const ConditionDefinitionSchema: z.ZodType<ConditionDefinition> = z.object({
+  stat: z.enum(['health', 'maxHealth', 'handSize', 'deckSize', 'discardSize', 'resource']),
+  resource: z.string().min(1).optional(),
+  player: z.enum(['self', 'opponent']).optional(),
+  compare: z.enum(['lt', 'lte', 'eq', 'gte', 'gt']),
+  value: z.number()
+}).refine(c => c.stat !== 'resource' || c.resource !== undefined, {
+  message: "A 'resource' condition needs a resource name",
+  path: ['resource']
+});
+
+type Predicate = (context: GameContext) => boolean;
+
+const sources = new WeakMap<Predicate, ConditionDefinition>();
+
+export function compileCondition(condition: ConditionDefinition): Predicate {
+  const predicate: Predicate = context => {
+    const [targetId] = resolveTargets(condition.player ?? 'self', context);
+    if (!targetId) {
+      return false;
+    }
+
+    const player = context.gameState.players[targetId];
+
+    const actual = readStat(player, condition.stat, condition.resource);
+    switch (condition.compare) {
+      case 'lt': return actual < condition.value;
+      case 'lte': return actual <= condition.value;
+      case 'eq': return actual === condition.value;
+      case 'gte': return actual >= condition.value;
+      case 'gt': return actual > condition.value;
+    }
+  };
+
+  sources.set(predicate, condition);
+  return predicate;
+}
+
+/**
+ * Returns the definition a predicate was compiled from, or undefined for predicates written in code.
+ */
+export function conditionSource(predicate: Predicate): ConditionDefinition | undefined {
+  return sources.get(predicate);
+}
@@ -0,0 +1,142 @@
+import { expect } from 'chai';
+import {
+  Context,
+  LoggerTag,
+  RandomTag,
+  SeededRandomGenerator,
+  Service,
+  StorageTag,
+  defaultContext,
+  serviceTag
+} from './Context';
+
+interface Counter extends Service {
+  readonly id: 'counter';
+  readonly value: number;
+}
+
+interface Greeter extends Service {
+  readonly id: 'greeter';
+  greet(name: string): string;
+}
+
+const CounterTag = serviceTag<Counter>('counter');
+const GreeterTag = serviceTag<Greeter>('greeter');
+
+const counting = () => {
+  let built = 0;
+  return { provide: (): Counter => ({ id: 'counter', value: ++built }) };
+};
+
+describe('Context', () => {
+  it('should provide services by typed tag', () => {
+    const logger = defaultContext.provide(LoggerTag);
+    expect(logger.id).to.equal('logger');
+    expect(defaultContext.provide(LoggerTag)).to.equal(logger);
+  });
+
+  it('should give every scope its own scoped services', async () => {
+    const game1 = defaultContext.scope();
+    const game2 = defaultContext.fork();
+
+    await game1.provide(StorageTag).save('run', { floor: 3 });
+    expect(await game2.provide(StorageTag).exists('run')).to.be.false;
+    expect(game1.provide(LoggerTag)).to.equal(game2.provide(LoggerTag));
+  });
+
+  it('should use the services a scope is given instead of building them', () => {
+    const random = new SeededRandomGenerator(9);
+    const game = defaultContext.scope([random]);
+
+    expect(game.provide(RandomTag)).to.equal(random);
+    expect(game.scope().provide(RandomTag)).to.equal(random);
+    expect(defaultContext.scope().provide(RandomTag)).to.not.equal(random);
+  });
+
+  it('should build transient services on every lookup', () => {
+    const context = new Context().register(CounterTag, { ...counting(), lifetime: 'transient' });
+    expect(context.provide(CounterTag).value).to.equal(1);
+    expect(context.provide(CounterTag).value).to.equal(2);
+  });
+
+  it('should resolve providers that depend on other services', () => {
+    const context = new Context()
+      .register(CounterTag, counting())
+      .register(GreeterTag, {
+        provide: services => ({ id: 'greeter', greet: name => `${name} #${services.provide(CounterTag).value}` })
+      });
+
+    expect(context.provide(GreeterTag).greet('Ironclad')).to.equal('Ironclad #1');
+  });
+
+  it('should report circular dependencies', () => {
+    const context = new Context()
+      .register('a', { provide: services => services.provide('b') })
+      .register('b', { provide: services => services.provide('a') });
+
+    expect(() => context.provide('a')).to.throw('Circular service dependency: a -> b -> a');
+  });
+
+  it('should resolve async providers', async () => {
+    const context = new Context().register(CounterTag, {
+      provide: async () => ({ id: 'counter', value: 7 })
+    });
+
+    expect(() => context.provide(CounterTag)).to.throw(/provideAsync/);
+    expect((await context.provideAsync(CounterTag)).value).to.equal(7);
+    expect(context.provide(CounterTag).value).to.equal(7);
+  });
+
+  it('should not leave failed async providers unhandled when provided synchronously', async () => {
+    const unhandled: unknown[] = [];
+    const record = (reason: unknown): void => { unhandled.push(reason); };
+    process.on('unhandledRejection', record);
+    try {
+      const context = new Context().register(CounterTag, {
+        provide: async () => { throw new Error('Counter is offline'); }
+      });
+
+      expect(() => context.provide(CounterTag)).to.throw(/provideAsync/);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(unhandled).to.deep.equal([]);
+      await context.provideAsync(CounterTag).then(
+        () => expect.fail('should have failed'),
+        (error: Error) => expect(error.message).to.equal('Counter is offline')
+      );
+    } finally {
+      process.off('unhandledRejection', record);
+    }
+  });
+
+  it('should report circular dependencies between async providers', async () => {
+    const context = new Context()
+      .register('a', { provide: async services => services.provideAsync('b') })
+      .register('b', { provide: async services => services.provideAsync('a') });
+
+    await context.provideAsync('a').then(
+      () => expect.fail('should have failed'),
+      (error: Error) => expect(error.message).to.equal('Circular service dependency: a -> b -> a')
+    );
+  });
+
+  it('should run disposal hooks when a scope ends, newest first', async () => {
+    const disposed: string[] = [];
+    const root = new Context()
+      .register(CounterTag, { ...counting(), dispose: () => { disposed.push('counter'); } })
+      .register(GreeterTag, {
+        provide: () => ({ id: 'greeter', greet: name => name }),
+        lifetime: 'scoped',
+        dispose: () => { disposed.push('greeter'); }
+      });
+
+    const game = root.scope();
+    game.provide(CounterTag);
+    game.provide(GreeterTag);
+
+    await game.dispose();
+    expect(disposed).to.deep.equal(['greeter']);
+
+    await root.dispose();
+    expect(disposed).to.deep.equal(['greeter', 'counter']);
+  });
+});
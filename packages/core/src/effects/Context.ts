@@ -1,57 +1,166 @@
+import { EffectRegistry } from './EffectRegistry';
+import { StatusRegistry } from './Status';
+import { KeywordRegistry } from './Keyword';
+import { ResourceRegistry } from './Resource';
+import { RandomGenerator, SeededRandomGenerator } from './Random';
+
+export { SeededRandomGenerator, type RandomGenerator } from './Random';
 
 export interface Service {
   readonly id: string;
 }
 
+/**
+ * Typed key for a service: `provide(LoggerTag)` returns a `Logger` without a cast.
+ */
+export interface ServiceTag<T extends Service> {
+  readonly id: T['id'];
+  /** Carries the service type only; never set. */
+  readonly service?: T;
+}
+
+export function serviceTag<T extends Service>(id: T['id']): ServiceTag<T> {
+  return { id };
+}
+
+/**
+ * How long a service lives: one instance per container ('singleton'), one per scope
+ * such as a game ('scoped'), or a new one for every lookup ('transient').
+ */
+export type Lifetime = 'singleton' | 'scoped' | 'transient';
+
 export interface Provider<T extends Service> {
-  provide(): T;
+  /**
+   * Builds the service. Other services can be taken from `context`; a promise makes
+   * the service asynchronous, see `Context.provideAsync`.
+   */
+  provide(context: Context): T | Promise<T>;
+  /** Defaults to 'singleton'. */
+  readonly lifetime?: Lifetime;
+  /** Runs when the scope that built the service is disposed. */
+  dispose?(service: T): void | Promise<void>;
 }
 
+const idOf = (key: ServiceTag<Service> | string): string => typeof key === 'string' ? key : key.id;
+
 export class Context {
-  private readonly services = new Map<string, Service>();
-  private readonly providers = new Map<string, Provider<any>>();
+  private readonly providers: Map<string, Provider<any>>;
+  private readonly instances = new Map<string, unknown>();
+  private readonly disposers: (() => void | Promise<void>)[] = [];
+  private readonly root: Context;
+  /** Services being built through this context, outermost first. */
+  private path: readonly string[] = [];
+
+  constructor(providers: ReadonlyMap<string, Provider<any>> = new Map(), parent?: Context) {
+    this.providers = new Map(providers);
+    this.root = parent?.root ?? this;
+  }
 
-  register<T extends Service>(id: string, provider: Provider<T>): Context {
-    return new Context().copyFrom(this).addProvider(id, provider);
+  /**
+   * Returns a new container with the provider added. Services are built afresh in it.
+   */
+  register<T extends Service>(key: ServiceTag<T> | string, provider: Provider<T>): Context {
+    return new Context(new Map(this.providers).set(idOf(key), provider));
   }
 
-  provide<T extends Service>(id: string): T {
-    const cached = this.services.get(id);
-    if (cached) {
-      return cached as T;
+  provide<T extends Service>(tag: ServiceTag<T>): T;
+  provide<T extends Service>(id: string): T;
+  provide<T extends Service>(key: ServiceTag<T> | string): T {
+    const id = idOf(key);
+    const service = this.resolve(id);
+    if (service instanceof Promise) {
+      // The promise stays cached for provideAsync(); its failures are reported there.
+      service.catch(() => {});
+      throw new Error(`Service '${id}' is provided asynchronously; use provideAsync()`);
     }
+    return service as T;
+  }
 
-    const provider = this.providers.get(id);
-    if (!provider) {
-      throw new Error(`No provider registered for service: ${id}`);
-    }
+  provideAsync<T extends Service>(tag: ServiceTag<T>): Promise<T>;
+  provideAsync<T extends Service>(id: string): Promise<T>;
+  async provideAsync<T extends Service>(key: ServiceTag<T> | string): Promise<T> {
+    return await this.resolve(idOf(key)) as T;
+  }
 
-    const service = provider.provide();
-    this.services.set(id, service);
-    return service as T;
+  has(key: ServiceTag<Service> | string): boolean {
+    return this.providers.has(idOf(key));
   }
 
-  has(id: string): boolean {
-    return this.providers.has(id) || this.services.has(id);
+  /**
+   * Child container, e.g. for one game. Singletons are shared with the parent;
+   * scoped services are built once per scope. `services` are used in the scope as
+   * they are, instead of what their providers would build.
+   */
+  scope(services: readonly Service[] = []): Context {
+    const providers = new Map(this.providers);
+    for (const service of services) {
+      providers.set(service.id, { provide: () => service, lifetime: 'scoped' });
+    }
+    return new Context(providers, this);
   }
 
   fork(): Context {
-    return new Context().copyFrom(this);
+    return this.scope();
   }
 
-  private copyFrom(other: Context): Context {
-    for (const [id, provider] of other.providers.entries()) {
-      this.providers.set(id, provider);
-    }
-    for (const [id, service] of other.services.entries()) {
-      this.services.set(id, service);
+  /**
+   * Runs the disposal hooks of the services this scope built, newest first. Disposing
+   * the root container disposes the singletons.
+   */
+  async dispose(): Promise<void> {
+    const disposers = this.disposers.splice(0).reverse();
+    this.instances.clear();
+    for (const dispose of disposers) {
+      await dispose();
     }
-    return this;
   }
 
-  private addProvider<T extends Service>(id: string, provider: Provider<T>): Context {
-    this.providers.set(id, provider);
-    return this;
+  /**
+   * This container as given to a provider: the same services, plus the path of the
+   * services being built, so cycles are found across `await`s too.
+   */
+  private resolvingFor(path: readonly string[]): Context {
+    const view = Object.create(this) as Context;
+    view.path = path;
+    return view;
+  }
+
+  private resolve(id: string): unknown {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`No provider registered for service: ${id}`);
+    }
+
+    if (this.path.includes(id)) {
+      throw new Error(`Circular service dependency: ${[...this.path, id].join(' -> ')}`);
+    }
+
+    const lifetime = provider.lifetime ?? 'singleton';
+    const owner = lifetime === 'singleton' ? this.root : this;
+    const cache = lifetime === 'transient' ? undefined : owner.instances;
+    if (cache?.has(id)) {
+      return cache.get(id);
+    }
+
+    const created = provider.provide(owner.resolvingFor([...this.path, id]));
+
+    const track = (service: unknown): unknown => {
+      cache?.set(id, service);
+      if (provider.dispose) {
+        owner.disposers.push(() => provider.dispose!(service));
+      }
+      return service;
+    };
+
+    if (created instanceof Promise) {
+      const pending = created.then(track, (error: unknown) => {
+        cache?.delete(id);
+        throw error;
+      });
+      cache?.set(id, pending);
+      return pending;
+    }
+    return track(created);
   }
 }
 
@@ -63,14 +172,6 @@ export interface Logger extends Service {
   error(message: string, metadata?: Record<string, unknown>): void;
 }
 
-export interface RandomGenerator extends Service {
-  readonly id: 'random';
-  next(): number;
-  nextInt(min: number, max: number): number;
-  shuffle<T>(array: T[]): T[];
-  pick<T>(array: T[]): T;
-}
-
 export interface GameStorage extends Service {
   readonly id: 'storage';
   save(key: string, data: unknown): Promise<void>;
@@ -112,37 +213,6 @@ export class ConsoleLogger implements Logger {
   }
 }
 
-export class SeededRandomGenerator implements RandomGenerator {
-  readonly id = 'random' as const;
-  private seed: number;
-
-  constructor(seed?: number) {
-    this.seed = seed ?? Math.random();
-  }
-
-  next(): number {
-    const x = Math.sin(this.seed++) * 10000;
-    return x - Math.floor(x);
-  }
-
-  nextInt(min: number, max: number): number {
-    return Math.floor(this.next() * (max - min + 1)) + min;
-  }
-
-  shuffle<T>(array: T[]): T[] {
-    const result = [...array];
-    for (let i = result.length - 1; i > 0; i--) {
-      const j = this.nextInt(0, i);
-      [result[i], result[j]] = [result[j], result[i]];
-    }
-    return result;
-  }
-
-  pick<T>(array: T[]): T {
-    return array[this.nextInt(0, array.length - 1)];
-  }
-}
-
 export class MemoryStorage implements GameStorage {
   readonly id = 'storage' as const;
   private readonly data = new Map<string, unknown>();
@@ -199,8 +269,21 @@ export class SimpleEventBus implements EventBus {
   }
 }
 
+export const LoggerTag = serviceTag<Logger>('logger');
+export const RandomTag = serviceTag<RandomGenerator>('random');
+export const StorageTag = serviceTag<GameStorage>('storage');
+export const EventBusTag = serviceTag<EventBus>('eventBus');
+export const EffectRegistryTag = serviceTag<EffectRegistry>('effectRegistry');
+export const StatusRegistryTag = serviceTag<StatusRegistry>('statusRegistry');
+export const KeywordRegistryTag = serviceTag<KeywordRegistry>('keywordRegistry');
+export const ResourceRegistryTag = serviceTag<ResourceRegistry>('resourceRegistry');
+
 export const defaultContext = new Context()
-  .register('logger', { provide: () => new ConsoleLogger() })
-  .register('random', { provide: () => new SeededRandomGenerator() })
-  .register('storage', { provide: () => new MemoryStorage() })
-  .register('eventBus', { provide: () => new SimpleEventBus() });
\ No newline at end of file
+  .register(LoggerTag, { provide: () => new ConsoleLogger() })
+  .register(RandomTag, { provide: () => new SeededRandomGenerator(), lifetime: 'scoped' })
+  .register(StorageTag, { provide: () => new MemoryStorage(), lifetime: 'scoped' })
+  .register(EventBusTag, { provide: () => new SimpleEventBus(), lifetime: 'scoped' })
+  .register(EffectRegistryTag, { provide: () => EffectRegistry.withBuiltins() })
+  .register(StatusRegistryTag, { provide: () => StatusRegistry.withBuiltins() })
+  .register(KeywordRegistryTag, { provide: () => KeywordRegistry.withBuiltins() })
+  .register(ResourceRegistryTag, { provide: () => ResourceRegistry.withBuiltins() });
\ No newline at end of file
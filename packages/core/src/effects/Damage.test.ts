@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import { DamageEffect, GainBlockEffect } from './primitives';
+import { DamageModifier, DamageReport, formatDamage } from './Damage';
+import { GameEngine } from '../engine/GameEngine';
+import { createContext, createPlayer, createState } from '../testing/fixtures';
+
+describe('Damage pipeline', () => {
+  it('should record every stage and absorb damage with block', () => {
+    const state = createState(createPlayer('p1', { statuses: { weak: { stacks: 1 } } }), createPlayer('p2', { block: 6 }));
+    const result = new DamageEffect(12).execute(createContext(state));
+
+    const [report] = result.metadata!['damage'] as DamageReport[];
+    expect(formatDamage(report)).to.equal('12 → 9 (weak) → 3 after block');
+    expect(report.blocked).to.equal(6);
+    expect(result.newState.players['p2'].block).to.equal(0);
+    expect(result.newState.players['p2'].health).to.equal(47);
+  });
+
+  it('should run extra modifiers in stage and priority order', () => {
+    const halve: DamageModifier = { id: 'halve', stage: 'defender', apply: amount => Math.floor(amount / 2) };
+    const double: DamageModifier = { id: 'double', stage: 'attacker', priority: 1, apply: amount => amount * 2 };
+    const plusOne: DamageModifier = { id: 'plusOne', stage: 'attacker', apply: amount => amount + 1 };
+
+    const state = createState(createPlayer('p1'), createPlayer('p2'));
+    const result = new DamageEffect(5).execute(createContext(state, { damageModifiers: [halve, double, plusOne] }));
+
+    const [report] = result.metadata!['damage'] as DamageReport[];
+    expect(report.stages.map(s => s.label)).to.deep.equal(['base', 'plusOne', 'double', 'halve']);
+    expect(result.newState.players['p2'].health).to.equal(44);
+  });
+
+  it('should expire block at the start of the owner\'s turn', () => {
+    const state = { ...createState(createPlayer('p1'), createPlayer('p2')), phase: 'draw' as const };
+    const engine = new GameEngine(state, { drawCount: 0 });
+    engine.start();
+
+    const blocked = new GainBlockEffect(5).execute(createContext(engine.state)).newState;
+    const next = new GameEngine(blocked, { drawCount: 0 });
+    next.endTurn();
+    expect(next.state.players['p1'].block).to.equal(5);
+
+    next.endTurn();
+    expect(next.state.players['p1'].block).to.equal(0);
+  });
+});
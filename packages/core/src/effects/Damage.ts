@@ -0,0 +1,102 @@
+import { GameContext } from './Effect';
+import { statusRegistryOf } from './Status';
+
+export interface DamageStage {
+  /** What changed the amount: 'base', a status or modifier id, or 'block'. */
+  readonly label: string;
+  readonly amount: number;
+}
+
+export interface DamageReport {
+  readonly source: string;
+  readonly target: string;
+  /** Amount after every stage that changed it, starting with the base amount. */
+  readonly stages: DamageStage[];
+  readonly blocked: number;
+  readonly healthLost: number;
+}
+
+/**
+ * Extra step in the damage pipeline, e.g. from a relic. Attacker modifiers run
+ * before defender modifiers; within a stage lower `priority` runs first.
+ */
+export interface DamageModifier {
+  readonly id: string;
+  readonly stage: 'attacker' | 'defender';
+  readonly priority?: number;
+  apply(amount: number, source: string, target: string, context: GameContext): number;
+}
+
+function statusStages(playerId: string, direction: 'outgoing' | 'incoming', context: GameContext): DamageModifier[] {
+  const registry = statusRegistryOf(context);
+  const statuses = context.gameState.players[playerId]?.statuses ?? {};
+
+  return Object.entries(statuses).flatMap(([id, instance]) => {
+    const definition = registry.get(id);
+    const modify = direction === 'outgoing' ? definition.modifyOutgoingDamage : definition.modifyIncomingDamage;
+    return modify ? [{
+      id,
+      stage: direction === 'outgoing' ? 'attacker' as const : 'defender' as const,
+      apply: (amount: number) => modify(amount, instance)
+    }] : [];
+  });
+}
+
+function byPriority(stage: 'attacker' | 'defender', modifiers: readonly DamageModifier[]): DamageModifier[] {
+  return modifiers
+    .filter(m => m.stage === stage)
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+}
+
+/**
+ * Runs damage through attacker modifiers, defender modifiers and block, and
+ * reports how much health the target loses. Does not change the state.
+ */
+export function resolveDamage(amount: number, source: string, target: string, context: GameContext): DamageReport {
+  const extra = context.damageModifiers ?? [];
+  const pipeline = [
+    ...statusStages(source, 'outgoing', context),
+    ...byPriority('attacker', extra),
+    ...statusStages(target, 'incoming', context),
+    ...byPriority('defender', extra)
+  ];
+
+  const stages: DamageStage[] = [{ label: 'base', amount }];
+  let current = amount;
+  for (const modifier of pipeline) {
+    const next = Math.max(0, modifier.apply(current, source, target, context));
+    if (next !== current) {
+      stages.push({ label: modifier.id, amount: next });
+      current = next;
+    }
+  }
+
+  const defender = context.gameState.players[target];
+  const blocked = Math.min(defender?.block ?? 0, current);
+  if (blocked > 0) {
+    current -= blocked;
+    stages.push({ label: 'block', amount: current });
+  }
+
+  return {
+    source,
+    target,
+    stages,
+    blocked,
+    healthLost: Math.min(current, defender?.health ?? 0)
+  };
+}
+
+/**
+ * Renders a report as e.g. "12 → 9 (weak) → 3 after block".
+ */
+export function formatDamage(report: DamageReport): string {
+  return report.stages
+    .map((stage, index) => {
+      if (index === 0) {
+        return `${stage.amount}`;
+      }
+      return stage.label === 'block' ? `${stage.amount} after block` : `${stage.amount} (${stage.label})`;
+    })
+    .join(' → ');
+}
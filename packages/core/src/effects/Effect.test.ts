@@ -1,5 +1,7 @@
 import { expect } from 'chai';
-import { GameContext, GameState } from './Effect';
+import { Effect, GameContext, GameState } from './Effect';
+import { DamageEffect, DrawCardEffect, GainBlockEffect, ResourceEffect } from './primitives';
+import { createCard, createContext, createPlayer, createState } from '../testing/fixtures';
 
 describe('Effect System', () => {
   it('should create a DamageEffect', () => {
@@ -33,4 +35,148 @@ describe('Effect System', () => {
     expect(result.messages).to.be.an('array');
     expect(result.newState.players['player2'].health).to.equal(95);
   });
-});
\ No newline at end of file
+});
+
+const createDeckContext = (): GameContext => createContext(createState(
+  createPlayer('player1', {
+    health: 100,
+    maxHealth: 100,
+    deck: [createCard('a', { cost: 1 }), createCard('b', { cost: 2 }), createCard('c', { cost: 3 })],
+    resources: { energy: 3 }
+  }),
+  createPlayer('player2', { health: 100, maxHealth: 100 })
+));
+
+describe('Failure policies', () => {
+  const gameState = createState(
+    createPlayer('player1', { health: 100, maxHealth: 100, resources: { energy: 1 } }),
+    createPlayer('player2', { health: 100, maxHealth: 100 })
+  );
+  const context = createContext(gameState);
+
+  const effects = [new DamageEffect(5), ResourceEffect.spend('energy', 2), new GainBlockEffect(3)];
+
+  it('should keep what resolved before the failure by default', () => {
+    const result = Effect.sequence(effects).execute(context);
+    expect(result.success).to.be.false;
+    expect(result.newState.players['player2'].health).to.equal(95);
+    expect(result.newState.players['player1'].block).to.be.undefined;
+    expect(result.failure).to.include({ index: 1, type: 'resource' });
+    expect(result.failure!.reason).to.contain("doesn't have enough energy");
+  });
+
+  it('should roll back to the original state', () => {
+    const result = Effect.all(effects, 'rollback').execute(context);
+    expect(result.success).to.be.false;
+    expect(result.newState).to.equal(gameState);
+    expect(result.events).to.deep.equal([]);
+    expect(result.failure!.index).to.equal(1);
+  });
+
+  it('should skip failures and continue', () => {
+    const result = Effect.sequence(effects, 'continue').execute(context);
+    expect(result.success).to.be.true;
+    expect(result.newState.players['player2'].health).to.equal(95);
+    expect(result.newState.players['player1'].block).to.equal(3);
+    expect(result.skipped!.map(f => f.index)).to.deep.equal([1]);
+  });
+
+  it('should report nested failures and failed iterations', () => {
+    const nested = Effect.sequence([new DamageEffect(1), Effect.all(effects)]).execute(context);
+    expect(nested.failure).to.include({ index: 1, type: 'composite' });
+    expect(nested.failure!.cause).to.include({ index: 1, type: 'resource' });
+
+    const repeated = ResourceEffect.spend('energy', 1).repeat(3, 'rollback').execute(context);
+    expect(repeated.failure!.index).to.equal(1);
+    expect(repeated.newState.players['player1'].resources['energy']).to.equal(1);
+  });
+});
+
+describe('Effect values', () => {
+  const context = createDeckContext();
+
+  it('should return what primitives did', () => {
+    expect(new DrawCardEffect(2).execute(context).value!.map(c => c.id)).to.deep.equal(['c', 'b']);
+    expect(ResourceEffect.spend('energy', 2).execute(context).value).to.equal(2);
+    expect(ResourceEffect.spend('energy', 5).execute(context).value).to.be.undefined;
+  });
+
+  it('should feed values into the next effect with flatMap', () => {
+    const effect = new DrawCardEffect(2).flatMap(cards =>
+      new DamageEffect(cards.reduce((total, c) => total + (c.cost as number), 0)));
+    const result = effect.execute(context);
+
+    expect(result.success).to.be.true;
+    expect(result.value).to.equal(5);
+    expect(result.newState.players['player2'].health).to.equal(95);
+    expect(result.newState.players['player1'].hand).to.have.length(2);
+  });
+
+  it('should map and zip values', () => {
+    const drawn = new DrawCardEffect(1).map(cards => cards.length);
+    const result = drawn.zip(ResourceEffect.gain('energy', 2)).execute(context);
+
+    expect(result.value).to.deep.equal([1, 2]);
+    expect(result.newState.players['player1'].resources['energy']).to.equal(5);
+  });
+
+  it('should stop before the next effect when the first one fails', () => {
+    let called = false;
+    const result = ResourceEffect.spend('energy', 9).flatMap(spent => {
+      called = true;
+      return Effect.succeed(spent);
+    }).execute(context);
+
+    expect(result.success).to.be.false;
+    expect(called).to.be.false;
+    expect(result.value).to.be.undefined;
+  });
+});
+
+describe('Effect.gen', () => {
+  const context = createDeckContext();
+
+  it('should pass values back into the generator and loop over them', () => {
+    const effect = Effect.gen(function* () {
+      const cards = yield* new DrawCardEffect(2);
+      let total = 0;
+      for (const card of cards) {
+        total += yield* new DamageEffect(card.cost as number);
+      }
+      return total;
+    }, 'Deal damage equal to the cost of 2 drawn cards');
+    const result = effect.execute(context);
+
+    expect(result.success).to.be.true;
+    expect(result.value).to.equal(5);
+    expect(result.newState.players['player2'].health).to.equal(95);
+    expect(result.messages).to.have.length(3);
+    expect(effect.description).to.equal('Deal damage equal to the cost of 2 drawn cards');
+  });
+
+  it('should start a fresh generator on every execution', () => {
+    const effect = Effect.gen(function* (ctx) {
+      const spent = yield* ResourceEffect.spend('energy', 2);
+      return ctx.gameState.players['player1'].resources['energy'] - spent;
+    });
+
+    expect(effect.execute(context).value).to.equal(1);
+    expect(effect.execute(context).value).to.equal(1);
+  });
+
+  it('should stop at the first failure and report which step failed', () => {
+    let reached = false;
+    const result = Effect.gen(function* () {
+      const gained = yield* new GainBlockEffect(4);
+      if (gained < 5) {
+        yield* Effect.fail('Not enough block');
+      }
+      reached = true;
+    }).execute(context);
+
+    expect(result.success).to.be.false;
+    expect(reached).to.be.false;
+    expect(result.newState.players['player1'].block).to.equal(4);
+    expect(result.failure).to.include({ index: 1, type: 'fail', reason: 'Not enough block' });
+  });
+});
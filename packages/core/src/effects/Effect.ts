@@ -1,9 +1,41 @@
+import type { StatusInstance, StatusRegistry } from './Status';
+import type { ResourceRegistry } from './Resource';
+import type { ScheduledEffect } from './Schedule';
+import type { DamageModifier } from './Damage';
+import type { Patch } from 'immer';
+import { StatePatches, gameStateLimits, joinPatches, mergeBranches, patchesOf } from './Merge';
+import type { RandomGenerator } from './Random';
+import type { Context, Service, ServiceTag } from './Context';
+import type { GameEvent, TriggerDefinition } from './Events';
+import type { ChoiceQueue, PendingChoice } from './Choice';
 
 export interface GameContext {
   readonly playerId: string;
   readonly gameState: GameState;
   readonly random: () => number;
+  /** Generator behind `random`, when there is one; effects use its named streams. */
+  readonly rng?: RandomGenerator;
   readonly log: (message: string) => void;
+  /** Amount chosen for an X-cost card, if the card being resolved has one. */
+  readonly x?: number;
+  /** Resources spent to play the card being resolved, keyed by resource type. */
+  readonly paid?: Readonly<Record<string, number>>;
+  /** Player picked as the target when the card was played. */
+  readonly targetId?: string;
+  /** Status definitions to resolve against. The built-in statuses are used if omitted. */
+  readonly statuses?: StatusRegistry;
+  /** Resource rules to enforce. The built-in resources are used if omitted. */
+  readonly resources?: ResourceRegistry;
+  /** Damage modifiers that apply on top of the players' statuses, e.g. from relics. */
+  readonly damageModifiers?: readonly DamageModifier[];
+  /** Event being reacted to, when the effect resolves as part of a trigger. */
+  readonly event?: GameEvent;
+  /** Services effects can use, see `Effect.requiredServices` and `useService`. */
+  readonly services?: Context;
+  /** Values of earlier effects, by the key they were captured under. See `Effect.capture`. */
+  readonly values?: Readonly<Record<string, number>>;
+  /** Answers to the choices effects ask for, see `awaitChoice`. */
+  readonly choices?: ChoiceQueue;
 }
 
 export interface GameState {
@@ -11,67 +43,212 @@ export interface GameState {
   readonly currentPlayer: string;
   readonly turn: number;
   readonly phase: GamePhase;
+  /** Effects waiting for a later phase, see `ScheduleEffect`. */
+  readonly scheduled?: ScheduledEffect[];
 }
 
 export interface PlayerState {
   readonly id: string;
+  /** Players sharing a team are allies. Without one, a player is only allied with themselves. */
+  readonly team?: string;
   readonly health: number;
   readonly maxHealth: number;
+  /** Absorbed before health when taking damage. Expires at the start of the owner's turn. */
+  readonly block?: number;
   readonly hand: Card[];
   readonly deck: Card[];
   readonly discardPile: Card[];
+  /** Zones other than the deck, hand and discard pile, e.g. 'exhaust' and 'inPlay'. See `Zone`. */
+  readonly zones?: Record<string, Card[]>;
   readonly resources: Record<string, number>;
+  readonly costModifiers?: CostModifier[];
+  readonly statuses?: Record<string, StatusInstance>;
 }
 
 export interface Card {
   readonly id: string;
   readonly name: string;
-  readonly cost: number;
+  readonly cost: CardCost;
   readonly effects: Effect[];
   readonly tags: string[];
+  /** Triggers that are active while the card is in its owner's hand. */
+  readonly triggers?: TriggerDefinition[];
+}
+
+/**
+ * One copy of a card made from a content definition, see `CardLibrary`. Its name, cost,
+ * effects and tags are the definition's at its upgrade level, with its modifications applied.
+ */
+export interface CardInstance extends Card {
+  readonly definitionId: string;
+  /** Upgrade level; 0 is the card as defined. */
+  readonly upgrades: number;
+  readonly modifications: readonly CardModification[];
+}
+
+/**
+ * A change to a single copy of a card, applied in order on top of its upgrade level.
+ */
+export interface CardModification {
+  /** What made the change, e.g. 'relic:forge'. */
+  readonly source: string;
+  /** Replaces the cost. */
+  readonly cost?: CardCost;
+  /** Added to the tags. */
+  readonly tags?: readonly string[];
+}
+
+export const isCardInstance = (card: Card): card is CardInstance => 'definitionId' in card;
+
+/**
+ * A plain number is an energy cost. A record lists the amount of each resource,
+ * where 'X' spends everything the player has of that resource.
+ */
+export type CardCost = number | Readonly<Record<string, number | 'X'>>;
+
+export interface CostModifier {
+  readonly resource: string;
+  /** Added to the cost of matching cards; negative values make cards cheaper. */
+  readonly amount: number;
+  /** Number of cards the modifier applies to before it is used up. Unlimited if omitted. */
+  readonly uses?: number;
 }
 
 export type GamePhase = 'draw' | 'main' | 'discard' | 'end';
 
-export interface EffectResult {
+export interface EffectResult<A = unknown> {
   readonly success: boolean;
   readonly newState: GameState;
   readonly messages: string[];
+  /** What the effect produced, e.g. the cards drawn. Only set on success. */
+  readonly value?: A;
   readonly metadata?: Record<string, unknown>;
+  /** Domain events raised while resolving, in order. */
+  readonly events?: GameEvent[];
+  /** Immer patches from `gameState` to `newState`, and the ones that undo them. */
+  readonly patches?: Patch[];
+  readonly inversePatches?: Patch[];
+  /** The child that made an ordered combinator fail. */
+  readonly failure?: EffectFailure;
+  /** Children that failed and were skipped under the 'continue' policy. */
+  readonly skipped?: EffectFailure[];
+  /**
+   * Set when resolution stopped to wait for a player's choice. `success` is false and
+   * nothing should be committed; resolve again once the choice has an answer.
+   */
+  readonly pending?: PendingChoice;
 }
 
-export abstract class Effect {
+/**
+ * What an ordered combinator does when a child fails: undo everything ('rollback'),
+ * keep what resolved up to the failure ('commit'), or skip the child ('continue').
+ */
+export type FailurePolicy = 'rollback' | 'commit' | 'continue';
+
+export interface EffectFailure {
+  /** Position of the child, or the iteration of a repeated effect. */
+  readonly index: number;
+  readonly type: string;
+  readonly description: string;
+  readonly reason: string;
+  /** The failure inside the child when the child is itself a combinator. */
+  readonly cause?: EffectFailure;
+}
+
+/**
+ * A change to the game state that also produces a value of type `A`, which
+ * `map`, `flatMap` and `zip` pass on to what comes next.
+ */
+export abstract class Effect<A = unknown> {
   abstract readonly type: string;
   abstract readonly description: string;
 
-  abstract execute(context: GameContext): EffectResult;
+  abstract execute(context: GameContext): EffectResult<A>;
+
+  /**
+   * Ids of the services this effect takes from `GameContext.services`. The engine
+   * checks they are registered before the card is played.
+   */
+  requiredServices(): string[] {
+    return [];
+  }
 
   compose(other: Effect): CompositeEffect {
     return new CompositeEffect([this, other]);
   }
 
-  chain(fn: (result: EffectResult) => Effect): ChainedEffect {
+  chain<B>(fn: (result: EffectResult<A>) => Effect<B>): ChainedEffect<A, B> {
     return new ChainedEffect(this, fn);
   }
 
-  conditional(predicate: (context: GameContext) => boolean): ConditionalEffect {
+  map<B>(fn: (value: A) => B): MappedEffect<A, B> {
+    return new MappedEffect(this, fn);
+  }
+
+  /** Resolves the effect built from this effect's value. Skipped if this one fails. */
+  flatMap<B>(fn: (value: A) => Effect<B>): ChainedEffect<A, B> {
+    return new ChainedEffect(this, result => fn(result.value as A));
+  }
+
+  /** Resolves both effects in order and pairs their values. */
+  zip<B>(other: Effect<B>): ChainedEffect<A, [A, B]> {
+    return this.flatMap(a => other.map(b => [a, b] as [A, B]));
+  }
+
+  /**
+   * Resolves this effect, then `then` with this effect's value readable as `Value.captured(key)`.
+   * Card lists count as their length.
+   */
+  capture<B>(key: string, then: Effect<B>): CaptureEffect<A, B> {
+    return new CaptureEffect(this, key, then);
+  }
+
+  conditional(predicate: (context: GameContext) => boolean): ConditionalEffect<A> {
     return new ConditionalEffect(this, predicate);
   }
 
-  repeat(times: number): RepeatedEffect {
-    return new RepeatedEffect(this, times);
+  repeat(times: number, policy?: FailurePolicy): RepeatedEffect {
+    return new RepeatedEffect(this, times, policy);
   }
 
-  withContext<T>(key: string, value: T): ContextualEffect {
+  withContext<T>(key: string, value: T): ContextualEffect<A> {
     return new ContextualEffect(this, key, value);
   }
 
-  static all(effects: Effect[]): CompositeEffect {
-    return new CompositeEffect(effects);
+  /** Lets `Effect.gen` bodies `yield*` the effect and get its value back. */
+  *[Symbol.iterator](): Generator<Effect<A>, A, any> {
+    return yield this;
+  }
+
+  static succeed<A>(value: A): SucceedEffect<A> {
+    return new SucceedEffect(value);
+  }
+
+  static fail(reason: string): FailEffect {
+    return new FailEffect(reason);
+  }
+
+  /**
+   * Builds an effect from a generator that `yield*`s other effects and gets their values
+   * back. Resolves like a sequence: the first failure stops it and keeps what came before.
+   */
+  static gen<A>(
+    body: (context: GameContext) => Generator<Effect<any>, A, any>,
+    description = 'Custom effect'
+  ): GenEffect<A> {
+    return new GenEffect(body, description);
+  }
+
+  static dynamic<A>(build: (context: GameContext) => Effect<A>, description: string): DynamicEffect<A> {
+    return new DynamicEffect(build, description);
+  }
+
+  static all(effects: Effect[], policy?: FailurePolicy): CompositeEffect {
+    return new CompositeEffect(effects, policy);
   }
 
-  static sequence(effects: Effect[]): SequentialEffect {
-    return new SequentialEffect(effects);
+  static sequence(effects: Effect[], policy?: FailurePolicy): SequentialEffect {
+    return new SequentialEffect(effects, policy);
   }
 
   static parallel(effects: Effect[]): ParallelEffect {
@@ -79,81 +256,307 @@ export abstract class Effect {
   }
 }
 
-export class CompositeEffect extends Effect {
-  readonly type = 'composite';
-  readonly description: string;
+function requiredBy(effects: readonly Effect[]): string[] {
+  return [...new Set(effects.flatMap(effect => effect.requiredServices()))];
+}
 
-  constructor(private readonly effects: Effect[]) {
-    super();
-    this.description = `Composite: ${effects.map(e => e.description).join(', ')}`;
+/**
+ * Services required by the effects that the container cannot provide.
+ */
+export function missingServices(effects: readonly Effect[], services: Context): string[] {
+  return requiredBy(effects).filter(id => !services.has(id));
+}
+
+export function useService<T extends Service>(context: GameContext, key: ServiceTag<T> | string): T {
+  const id = typeof key === 'string' ? key : key.id;
+  if (!context.services) {
+    throw new Error(`Service '${id}' is not available: the game has no service context`);
   }
+  return context.services.provide<T>(id);
+}
 
-  execute(context: GameContext): EffectResult {
-    let currentState = context.gameState;
-    const allMessages: string[] = [];
-    let success = true;
+function describeFailure(effect: Effect, index: number, result: EffectResult): EffectFailure {
+  return {
+    index,
+    type: effect.type,
+    description: effect.description,
+    reason: result.failure?.reason ?? result.messages[result.messages.length - 1] ?? 'Effect failed',
+    ...(result.failure ? { cause: result.failure } : {})
+  };
+}
 
-    for (const effect of this.effects) {
-      const result = effect.execute({ ...context, gameState: currentState });
+/**
+ * Resolves effects one after another, each against the state left by the previous one,
+ * and handles a failed child according to the policy.
+ */
+function resolveInOrder(effects: readonly Effect[], context: GameContext, policy: FailurePolicy): EffectResult {
+  let currentState = context.gameState;
+  const allMessages: string[] = [];
+  const allEvents: GameEvent[] = [];
+  const steps: StatePatches[] = [];
+  const skipped: EffectFailure[] = [];
+
+  for (const [index, effect] of effects.entries()) {
+    const result = effect.execute({ ...context, gameState: currentState });
+    allMessages.push(...result.messages);
+
+    if (result.success) {
+      steps.push(patchesOf(currentState, result));
       currentState = result.newState;
-      allMessages.push(...result.messages);
-      
-      if (!result.success) {
-        success = false;
-        break;
-      }
+      allEvents.push(...(result.events ?? []));
+      continue;
+    }
+
+    if (result.pending) {
+      return { success: false, newState: context.gameState, messages: allMessages, pending: result.pending };
+    }
+
+    const failure = describeFailure(effect, index, result);
+    if (policy === 'continue') {
+      skipped.push(failure);
+      continue;
+    }
+    if (policy === 'rollback') {
+      return {
+        success: false,
+        newState: context.gameState,
+        messages: [...allMessages, `Rolled back: ${failure.description} failed`],
+        events: [],
+        patches: [],
+        inversePatches: [],
+        failure
+      };
     }
 
     return {
-      success,
-      newState: currentState,
-      messages: allMessages
+      success: false,
+      newState: result.newState,
+      messages: allMessages,
+      events: [...allEvents, ...(result.events ?? [])],
+      ...joinPatches([...steps, patchesOf(currentState, result)]),
+      failure
     };
   }
+
+  return {
+    success: true,
+    newState: currentState,
+    messages: allMessages,
+    events: allEvents,
+    ...joinPatches(steps),
+    ...(skipped.length > 0 ? { skipped } : {})
+  };
+}
+
+export class CompositeEffect extends Effect {
+  readonly type = 'composite';
+  readonly description: string;
+
+  constructor(
+    readonly effects: Effect[],
+    readonly policy: FailurePolicy = 'commit'
+  ) {
+    super();
+    this.description = `Composite: ${effects.map(e => e.description).join(', ')}`;
+  }
+
+  override requiredServices(): string[] {
+    return requiredBy(this.effects);
+  }
+
+  execute(context: GameContext): EffectResult {
+    return resolveInOrder(this.effects, context, this.policy);
+  }
 }
 
-export class ChainedEffect extends Effect {
+export class ChainedEffect<A = unknown, B = unknown> extends Effect<B> {
   readonly type = 'chained';
   readonly description: string;
+  // Typed without `A` so that e.g. a ChainedEffect<number> is still an Effect.
+  private readonly chainFn: (result: EffectResult) => Effect<B>;
 
   constructor(
-    private readonly first: Effect,
-    private readonly chainFn: (result: EffectResult) => Effect
+    readonly first: Effect<A>,
+    chainFn: (result: EffectResult<A>) => Effect<B>
   ) {
     super();
+    this.chainFn = result => chainFn(result as EffectResult<A>);
     this.description = `Chained: ${first.description} -> (dynamic)`;
   }
 
-  execute(context: GameContext): EffectResult {
+  /** Only the first effect is known before resolving. */
+  override requiredServices(): string[] {
+    return this.first.requiredServices();
+  }
+
+  execute(context: GameContext): EffectResult<B> {
     const firstResult = this.first.execute(context);
     if (!firstResult.success) {
-      return firstResult;
+      return { ...firstResult, value: undefined };
     }
 
     const nextEffect = this.chainFn(firstResult);
     const secondResult = nextEffect.execute({ ...context, gameState: firstResult.newState });
+    const messages = [...firstResult.messages, ...secondResult.messages];
 
+    if (secondResult.pending) {
+      return { success: false, newState: context.gameState, messages, pending: secondResult.pending };
+    }
+
+    const skipped = [...(firstResult.skipped ?? []), ...(secondResult.skipped ?? [])];
+    const metadata = firstResult.metadata || secondResult.metadata
+      ? { ...firstResult.metadata, ...secondResult.metadata }
+      : undefined;
     return {
       success: secondResult.success,
       newState: secondResult.newState,
-      messages: [...firstResult.messages, ...secondResult.messages]
+      value: secondResult.value,
+      messages,
+      events: [...(firstResult.events ?? []), ...(secondResult.events ?? [])],
+      ...joinPatches([
+        patchesOf(context.gameState, firstResult),
+        patchesOf(firstResult.newState, secondResult)
+      ]),
+      ...(secondResult.failure ? { failure: secondResult.failure } : {}),
+      ...(skipped.length > 0 ? { skipped } : {}),
+      ...(metadata ? { metadata } : {})
+    };
+  }
+}
+
+export class MappedEffect<A = unknown, B = unknown> extends Effect<B> {
+  readonly type = 'mapped';
+  readonly description: string;
+  private readonly fn: (value: unknown) => B;
+
+  constructor(
+    readonly effect: Effect<A>,
+    fn: (value: A) => B
+  ) {
+    super();
+    this.fn = value => fn(value as A);
+    this.description = effect.description;
+  }
+
+  override requiredServices(): string[] {
+    return this.effect.requiredServices();
+  }
+
+  execute(context: GameContext): EffectResult<B> {
+    const result = this.effect.execute(context);
+    return { ...result, value: result.success ? this.fn(result.value) : undefined };
+  }
+}
+
+export class CaptureEffect<A = unknown, B = unknown> extends Effect<B> {
+  readonly type = 'capture';
+  readonly description: string;
+
+  constructor(
+    readonly effect: Effect<A>,
+    readonly key: string,
+    readonly then: Effect<B>
+  ) {
+    super();
+    this.description = `${effect.description}, then ${then.description}`;
+  }
+
+  override requiredServices(): string[] {
+    return requiredBy([this.effect, this.then]);
+  }
+
+  execute(context: GameContext): EffectResult<B> {
+    return this.effect.flatMap(value => {
+      const captured = typeof value === 'number' ? value : Array.isArray(value) ? value.length : 0;
+      return this.then.withContext('values', { ...context.values, [this.key]: captured });
+    }).execute(context);
+  }
+}
+
+/**
+ * Produces a value without changing the state.
+ */
+export class SucceedEffect<A = unknown> extends Effect<A> {
+  readonly type = 'succeed';
+  readonly description = 'Nothing happens';
+
+  constructor(readonly value: A) {
+    super();
+  }
+
+  execute(context: GameContext): EffectResult<A> {
+    return { success: true, newState: context.gameState, value: this.value, messages: [], patches: [], inversePatches: [] };
+  }
+}
+
+export class FailEffect extends Effect<never> {
+  readonly type = 'fail';
+  readonly description: string;
+
+  constructor(readonly reason: string) {
+    super();
+    this.description = `Fail: ${reason}`;
+  }
+
+  execute(context: GameContext): EffectResult<never> {
+    return { success: false, newState: context.gameState, messages: [this.reason], patches: [], inversePatches: [] };
+  }
+}
+
+/**
+ * Effect written as a generator, see `Effect.gen`. Every execution starts a fresh
+ * iterator and resolves it as a chain of `flatMap`s, one per yielded effect.
+ */
+export class GenEffect<A = unknown> extends Effect<A> {
+  readonly type = 'gen';
+
+  constructor(
+    readonly body: (context: GameContext) => Generator<Effect<any>, A, any>,
+    readonly description: string
+  ) {
+    super();
+  }
+
+  execute(context: GameContext): EffectResult<A> {
+    const iterator = this.body(context);
+    let index = -1;
+    let current: Effect | undefined;
+
+    const step = (input: unknown): Effect<A> => {
+      const next = iterator.next(input);
+      if (next.done) {
+        return Effect.succeed(next.value);
+      }
+      index++;
+      current = next.value;
+      return next.value.flatMap(step);
     };
+
+    const result = step(undefined).execute(context);
+    if (result.success || result.pending || !current) {
+      return result;
+    }
+    return { ...result, failure: describeFailure(current, index, result) };
   }
 }
 
-export class ConditionalEffect extends Effect {
+export class ConditionalEffect<A = unknown> extends Effect<A | undefined> {
   readonly type = 'conditional';
   readonly description: string;
 
   constructor(
-    private readonly effect: Effect,
-    private readonly predicate: (context: GameContext) => boolean
+    readonly effect: Effect<A>,
+    readonly predicate: (context: GameContext) => boolean
   ) {
     super();
     this.description = `Conditional: ${effect.description}`;
   }
 
-  execute(context: GameContext): EffectResult {
+  override requiredServices(): string[] {
+    return this.effect.requiredServices();
+  }
+
+  execute(context: GameContext): EffectResult<A | undefined> {
     if (this.predicate(context)) {
       return this.effect.execute(context);
     }
@@ -161,7 +564,9 @@ export class ConditionalEffect extends Effect {
     return {
       success: true,
       newState: context.gameState,
-      messages: [`Condition not met for: ${this.effect.description}`]
+      messages: [`Condition not met for: ${this.effect.description}`],
+      patches: [],
+      inversePatches: []
     };
   }
 }
@@ -171,51 +576,41 @@ export class RepeatedEffect extends Effect {
   readonly description: string;
 
   constructor(
-    private readonly effect: Effect,
-    private readonly times: number
+    readonly effect: Effect,
+    readonly times: number,
+    readonly policy: FailurePolicy = 'commit'
   ) {
     super();
     this.description = `Repeat ${times}x: ${effect.description}`;
   }
 
-  execute(context: GameContext): EffectResult {
-    let currentState = context.gameState;
-    const allMessages: string[] = [];
-    let success = true;
-
-    for (let i = 0; i < this.times; i++) {
-      const result = this.effect.execute({ ...context, gameState: currentState });
-      currentState = result.newState;
-      allMessages.push(...result.messages);
-      
-      if (!result.success) {
-        success = false;
-        break;
-      }
-    }
+  override requiredServices(): string[] {
+    return this.effect.requiredServices();
+  }
 
-    return {
-      success,
-      newState: currentState,
-      messages: allMessages
-    };
+  execute(context: GameContext): EffectResult {
+    return resolveInOrder(Array.from({ length: this.times }, () => this.effect), context, this.policy);
   }
 }
 
-export class ContextualEffect extends Effect {
+export class ContextualEffect<A = unknown> extends Effect<A> {
   readonly type = 'contextual';
   readonly description: string;
 
   constructor(
-    private readonly effect: Effect,
-    private readonly key: string,
-    private readonly value: unknown
+    readonly effect: Effect<A>,
+    readonly key: string,
+    readonly value: unknown
   ) {
     super();
     this.description = `With context [${key}]: ${effect.description}`;
   }
 
-  execute(context: GameContext): EffectResult {
+  override requiredServices(): string[] {
+    return this.effect.requiredServices();
+  }
+
+  execute(context: GameContext): EffectResult<A> {
     const enhancedContext = {
       ...context,
       [this.key]: this.value
@@ -225,38 +620,39 @@ export class ContextualEffect extends Effect {
   }
 }
 
+export class DynamicEffect<A = unknown> extends Effect<A> {
+  readonly type = 'dynamic';
+
+  constructor(
+    readonly build: (context: GameContext) => Effect<A>,
+    readonly description: string
+  ) {
+    super();
+  }
+
+  execute(context: GameContext): EffectResult<A> {
+    return this.build(context).execute(context);
+  }
+}
+
 export class SequentialEffect extends Effect {
   readonly type = 'sequential';
   readonly description: string;
 
-  constructor(private readonly effects: Effect[]) {
+  constructor(
+    readonly effects: Effect[],
+    readonly policy: FailurePolicy = 'commit'
+  ) {
     super();
     this.description = `Sequential: ${effects.map(e => e.description).join(' -> ')}`;
   }
 
-  execute(context: GameContext): EffectResult {
-    let currentState = context.gameState;
-    const allMessages: string[] = [];
-
-    for (const effect of this.effects) {
-      const result = effect.execute({ ...context, gameState: currentState });
-      currentState = result.newState;
-      allMessages.push(...result.messages);
-      
-      if (!result.success) {
-        return {
-          success: false,
-          newState: currentState,
-          messages: allMessages
-        };
-      }
-    }
+  override requiredServices(): string[] {
+    return requiredBy(this.effects);
+  }
 
-    return {
-      success: true,
-      newState: currentState,
-      messages: allMessages
-    };
+  execute(context: GameContext): EffectResult {
+    return resolveInOrder(this.effects, context, this.policy);
   }
 }
 
@@ -264,27 +660,70 @@ export class ParallelEffect extends Effect {
   readonly type = 'parallel';
   readonly description: string;
 
-  constructor(private readonly effects: Effect[]) {
+  constructor(readonly effects: Effect[]) {
     super();
     this.description = `Parallel: ${effects.map(e => e.description).join(' | ')}`;
   }
 
+  override requiredServices(): string[] {
+    return requiredBy(this.effects);
+  }
+
+  /**
+   * Every child resolves against the same state; their changes are then merged, with
+   * health and resources kept within their limits. Fails without changing the state
+   * when a child fails or two children make conflicting writes.
+   */
   execute(context: GameContext): EffectResult {
     const results = this.effects.map(effect => effect.execute(context));
-    const success = results.every(r => r.success);
     const allMessages = results.flatMap(r => r.messages);
 
-    let finalState = context.gameState;
-    if (success) {
-      finalState = results.reduce((state, result) => {
-        return { ...state, ...result.newState };
-      }, context.gameState);
+    const pending = results.find(r => r.pending)?.pending;
+    if (pending) {
+      return { success: false, newState: context.gameState, messages: allMessages, pending };
+    }
+
+    const failed = results.findIndex(r => !r.success);
+    if (failed >= 0) {
+      return {
+        success: false,
+        newState: context.gameState,
+        messages: allMessages,
+        events: [],
+        patches: [],
+        inversePatches: [],
+        failure: describeFailure(this.effects[failed], failed, results[failed])
+      };
+    }
+
+    const { state, conflicts, patches, inversePatches } = mergeBranches(
+      context.gameState,
+      results.map(r => r.newState),
+      gameStateLimits(context)
+    );
+    if (conflicts.length > 0) {
+      const [first] = conflicts;
+      const index = first.branches[first.branches.length - 1];
+      const reason = `Conflicting writes to ${first.path.join('.')}`;
+      return {
+        success: false,
+        newState: context.gameState,
+        messages: [...allMessages, reason],
+        metadata: { conflicts },
+        events: [],
+        patches: [],
+        inversePatches: [],
+        failure: { index, type: this.effects[index].type, description: this.effects[index].description, reason }
+      };
     }
 
     return {
-      success,
-      newState: finalState,
-      messages: allMessages
+      success: true,
+      newState: state,
+      messages: allMessages,
+      events: results.flatMap(r => r.events ?? []),
+      patches,
+      inversePatches
     };
   }
-}
\ No newline at end of file
+}
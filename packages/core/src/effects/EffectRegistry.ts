@@ -0,0 +1,516 @@
+import { z } from 'zod';
+import {
+  Card,
+  CardCost,
+  Effect,
+  GamePhase,
+  CaptureEffect,
+  CompositeEffect,
+  ConditionalEffect,
+  FailurePolicy,
+  ParallelEffect,
+  RepeatedEffect,
+  SequentialEffect
+} from './Effect';
+import { Service } from './Context';
+import {
+  DamageEffect,
+  HealEffect,
+  DrawCardEffect,
+  ResourceEffect,
+  CostModifierEffect,
+  LoseHealthEffect,
+  ApplyStatusEffect,
+  RemoveStatusEffect,
+  GainBlockEffect,
+  DiscardEffect,
+  ChooseTargetEffect,
+  ExhaustEffect,
+  MoveCardEffect,
+  ShuffleIntoDeckEffect,
+  CreateCardEffect,
+  ScheduleEffect,
+  CancelScheduledEffect
+} from './primitives';
+import { ConditionDefinitionSchema, compileCondition, conditionSource } from './Condition';
+import { TargetGroup, TargetSchema, TargetSpec, serializeTarget } from './Target';
+import { ValueSpec, valueSchema } from './Value';
+import { CardPosition, CardSelection, Zone, ZoneSchema } from './Zone';
+
+/**
+ * Declarative form of an effect: its registered `type` plus that type's parameters.
+ */
+export interface EffectDefinition {
+  readonly type: string;
+  readonly [param: string]: unknown;
+}
+
+export interface EffectTypeEntry<P extends object = any, E extends Effect = any> {
+  readonly type: string;
+  readonly description: string;
+  /**
+   * Schema for the parameters. Combinators receive the registry's own effect schema
+   * so that nested definitions are validated against every registered type.
+   */
+  readonly params: z.ZodType<P> | ((effect: z.ZodType<EffectDefinition>) => z.ZodType<P>);
+  create(params: P, registry: EffectRegistry): E;
+  serialize(effect: E, registry: EffectRegistry): P;
+}
+
+export interface EffectTypeInfo {
+  readonly type: string;
+  readonly description: string;
+  readonly params: z.ZodTypeAny;
+}
+
+export class EffectRegistry implements Service {
+  readonly id = 'effectRegistry' as const;
+  private readonly entries = new Map<string, { entry: EffectTypeEntry; params: z.ZodTypeAny }>();
+
+  /** Validates any definition whose type is registered, including nested ones. */
+  readonly schema: z.ZodType<EffectDefinition> = z.lazy(() =>
+    z.object({ type: z.string() }).passthrough().superRefine((definition, ctx) => {
+      const registered = this.entries.get(definition.type);
+      if (!registered) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown effect type: ${definition.type}`,
+          path: ['type']
+        });
+        return;
+      }
+
+      const { type: _type, ...params } = definition;
+      const parsed = registered.params.safeParse(params);
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: issue.path });
+        }
+      }
+    })
+  );
+
+  register<P extends object, E extends Effect>(entry: EffectTypeEntry<P, E>): EffectRegistry {
+    if (this.entries.has(entry.type)) {
+      throw new Error(`Effect type already registered: ${entry.type}`);
+    }
+
+    const params = typeof entry.params === 'function' ? entry.params(this.schema) : entry.params;
+    this.entries.set(entry.type, { entry, params });
+    return this;
+  }
+
+  has(type: string): boolean {
+    return this.entries.has(type);
+  }
+
+  get(type: string): EffectTypeEntry {
+    return this.lookup(type).entry;
+  }
+
+  list(): EffectTypeInfo[] {
+    return [...this.entries.values()].map(({ entry, params }) => ({
+      type: entry.type,
+      description: entry.description,
+      params
+    }));
+  }
+
+  /**
+   * Validates a definition and builds its effect tree. Throws with every problem found,
+   * each prefixed by its path inside the definition.
+   */
+  create(definition: unknown): Effect {
+    const parsed = this.schema.safeParse(definition);
+    if (!parsed.success) {
+      const problems = parsed.error.issues.map(issue =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+      throw new Error(`Invalid effect definition: ${problems.join('; ')}`);
+    }
+    return this.build(parsed.data);
+  }
+
+  /**
+   * Builds an effect from a definition that has already been validated against `schema`.
+   */
+  build(definition: EffectDefinition): Effect {
+    const { entry, params } = this.lookup(definition.type);
+    const { type: _type, ...rest } = definition;
+    return entry.create(params.parse(rest), this);
+  }
+
+  serialize(effect: Effect): EffectDefinition {
+    const registered = this.entries.get(effect.type);
+    if (!registered) {
+      throw new Error(`Cannot serialize effect of type '${effect.type}': no such effect type is registered`);
+    }
+    return { type: effect.type, ...registered.entry.serialize(effect, this) };
+  }
+
+  private lookup(type: string): { entry: EffectTypeEntry; params: z.ZodTypeAny } {
+    const registered = this.entries.get(type);
+    if (!registered) {
+      throw new Error(`Unknown effect type: ${type}. Registered types: ${[...this.entries.keys()].join(', ')}`);
+    }
+    return registered;
+  }
+
+  static withBuiltins(): EffectRegistry {
+    const registry = new EffectRegistry();
+    builtinEffects.forEach(entry => registry.register(entry));
+    return registry;
+  }
+}
+
+const count = z.number().int().nonnegative();
+const amount = valueSchema(count);
+
+const damageEntry: EffectTypeEntry<{ amount: ValueSpec; target?: TargetSpec }, DamageEffect> = {
+  type: 'damage',
+  description: 'Deals damage to the target',
+  params: z.object({ amount, target: TargetSchema.optional() }),
+  create: p => new DamageEffect(p.amount, p.target),
+  serialize: e => ({ amount: e.amount, target: serializeTarget(e.target) })
+};
+
+const healEntry: EffectTypeEntry<{ amount: ValueSpec; target?: TargetSpec }, HealEffect> = {
+  type: 'heal',
+  description: 'Restores health to the target, up to its maximum',
+  params: z.object({ amount, target: TargetSchema.optional() }),
+  create: p => new HealEffect(p.amount, p.target),
+  serialize: e => ({ amount: e.amount, target: serializeTarget(e.target) })
+};
+
+const drawEntry: EffectTypeEntry<{ count?: ValueSpec; target?: TargetSpec }, DrawCardEffect> = {
+  type: 'draw',
+  description: 'Draws cards, shuffling the discard pile into the deck when it runs out',
+  params: z.object({ count: amount.optional(), target: TargetSchema.optional() }),
+  create: p => new DrawCardEffect(p.count, p.target),
+  serialize: e => ({ count: e.count, target: serializeTarget(e.target) })
+};
+
+type ResourceParams = {
+  resource: string;
+  amount: ValueSpec;
+  operation?: 'gain' | 'spend' | 'set';
+  target?: TargetSpec;
+};
+
+const resourceEntry: EffectTypeEntry<ResourceParams, ResourceEffect> = {
+  type: 'resource',
+  description: 'Gains, spends or sets an amount of a resource',
+  params: z.object({
+    resource: z.string().min(1),
+    amount: valueSchema(z.number().int()),
+    operation: z.enum(['gain', 'spend', 'set']).optional(),
+    target: TargetSchema.optional()
+  }),
+  create: p => new ResourceEffect(p.resource, p.amount, p.operation, p.target),
+  serialize: e => ({ resource: e.resourceType, amount: e.amount, operation: e.operation, target: serializeTarget(e.target) })
+};
+
+type CostModifierParams = { resource: string; amount: ValueSpec; uses?: number; target?: TargetSpec };
+
+const costModifierEntry: EffectTypeEntry<CostModifierParams, CostModifierEffect> = {
+  type: 'costModifier',
+  description: 'Makes the next cards cost more or less of a resource',
+  params: z.object({
+    resource: z.string().min(1),
+    amount: valueSchema(z.number().int()),
+    uses: z.number().int().positive().optional(),
+    target: TargetSchema.optional()
+  }),
+  create: p => new CostModifierEffect(p.resource, p.amount, p.uses, p.target),
+  serialize: e => ({ resource: e.resourceType, amount: e.amount, uses: e.uses, target: serializeTarget(e.target) })
+};
+
+const loseHealthEntry: EffectTypeEntry<{ amount: ValueSpec; target?: TargetSpec }, LoseHealthEffect> = {
+  type: 'loseHealth',
+  description: 'Removes health directly, ignoring damage modifiers',
+  params: z.object({ amount, target: TargetSchema.optional() }),
+  create: p => new LoseHealthEffect(p.amount, p.target),
+  serialize: e => ({ amount: e.amount, target: serializeTarget(e.target) })
+};
+
+const gainBlockEntry: EffectTypeEntry<{ amount: ValueSpec; target?: TargetSpec }, GainBlockEffect> = {
+  type: 'gainBlock',
+  description: 'Adds block, which absorbs damage until the start of the owner\'s next turn',
+  params: z.object({ amount, target: TargetSchema.optional() }),
+  create: p => new GainBlockEffect(p.amount, p.target),
+  serialize: e => ({ amount: e.amount, target: serializeTarget(e.target) })
+};
+
+type ApplyStatusParams = { status: string; stacks: ValueSpec; target?: TargetSpec; duration?: number };
+
+const applyStatusEntry: EffectTypeEntry<ApplyStatusParams, ApplyStatusEffect> = {
+  type: 'applyStatus',
+  description: 'Adds stacks of a status, optionally for a number of turns',
+  params: z.object({
+    status: z.string().min(1),
+    stacks: valueSchema(z.number().int().positive()),
+    target: TargetSchema.optional(),
+    duration: z.number().int().positive().optional()
+  }),
+  create: p => new ApplyStatusEffect(p.status, p.stacks, p.target, p.duration),
+  serialize: e => ({ status: e.statusId, stacks: e.stacks, target: serializeTarget(e.target), duration: e.duration })
+};
+
+const removeStatusEntry: EffectTypeEntry<{ status: string; stacks?: ValueSpec; target?: TargetSpec }, RemoveStatusEffect> = {
+  type: 'removeStatus',
+  description: 'Removes stacks of a status, or the whole status',
+  params: z.object({
+    status: z.string().min(1),
+    stacks: valueSchema(z.number().int().positive()).optional(),
+    target: TargetSchema.optional()
+  }),
+  create: p => new RemoveStatusEffect(p.status, p.stacks, p.target),
+  serialize: e => ({ status: e.statusId, stacks: e.stacks, target: serializeTarget(e.target) })
+};
+
+const selection = z.enum(['choice', 'random', 'top', 'bottom', 'all']);
+const position = z.enum(['top', 'bottom', 'random']);
+
+type DiscardParams = { count?: ValueSpec; target?: TargetSpec; selection?: CardSelection };
+
+const discardEntry: EffectTypeEntry<DiscardParams, DiscardEffect> = {
+  type: 'discard',
+  description: 'Discards cards from the hand, picked by the target unless a selection is given',
+  params: z.object({ count: amount.optional(), target: TargetSchema.optional(), selection: selection.optional() }),
+  create: p => new DiscardEffect(p.count, p.target, p.selection),
+  serialize: e => ({ count: e.count, target: serializeTarget(e.target), selection: e.selection })
+};
+
+type ExhaustParams = { count?: ValueSpec; target?: TargetSpec; selection?: CardSelection; from?: Zone };
+
+const exhaustEntry: EffectTypeEntry<ExhaustParams, ExhaustEffect> = {
+  type: 'exhaust',
+  description: 'Moves cards to the exhaust pile, by default from the hand',
+  params: z.object({
+    count: amount.optional(),
+    target: TargetSchema.optional(),
+    selection: selection.optional(),
+    from: ZoneSchema.optional()
+  }),
+  create: p => new ExhaustEffect(p.count, p.target, p.selection, p.from),
+  serialize: e => ({ count: e.count, target: serializeTarget(e.target), selection: e.selection, from: e.from })
+};
+
+type MoveCardParams = {
+  from: Zone;
+  to: Zone;
+  count?: ValueSpec;
+  selection?: CardSelection;
+  position?: CardPosition;
+  target?: TargetSpec;
+};
+
+const moveCardEntry: EffectTypeEntry<MoveCardParams, MoveCardEffect> = {
+  type: 'moveCard',
+  description: 'Moves cards from one zone to another',
+  params: z.object({
+    from: ZoneSchema,
+    to: ZoneSchema,
+    count: amount.optional(),
+    selection: selection.optional(),
+    position: position.optional(),
+    target: TargetSchema.optional()
+  }),
+  create: p => new MoveCardEffect(p.from, p.to, p.count, p.selection, p.position, p.target),
+  serialize: e => ({
+    from: e.from,
+    to: e.to,
+    count: e.count,
+    selection: e.selection,
+    position: e.position,
+    target: serializeTarget(e.target)
+  })
+};
+
+const shuffleIntoDeckEntry: EffectTypeEntry<{ from?: Zone; target?: TargetSpec }, ShuffleIntoDeckEffect> = {
+  type: 'shuffleIntoDeck',
+  description: 'Shuffles every card of a zone, by default the discard pile, into the deck',
+  params: z.object({ from: ZoneSchema.optional(), target: TargetSchema.optional() }),
+  create: p => new ShuffleIntoDeckEffect(p.from, p.target),
+  serialize: e => ({ from: e.from, target: serializeTarget(e.target) })
+};
+
+type CardParams = { id: string; name: string; cost: CardCost; effects: EffectDefinition[]; tags?: string[] };
+
+type CreateCardParams = {
+  card: CardParams;
+  zone?: Zone;
+  count?: ValueSpec;
+  position?: CardPosition;
+  target?: TargetSpec;
+};
+
+const createCardEntry: EffectTypeEntry<CreateCardParams, CreateCardEffect> = {
+  type: 'createCard',
+  description: 'Adds new copies of a card to a zone, by default the hand',
+  params: effect => z.object({
+    card: z.object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      cost: z.union([count, z.record(z.string().min(1), z.union([count, z.literal('X')]))]),
+      effects: z.array(effect),
+      tags: z.array(z.string()).optional()
+    }),
+    zone: ZoneSchema.optional(),
+    count: amount.optional(),
+    position: position.optional(),
+    target: TargetSchema.optional()
+  }),
+  create: (p, registry) => {
+    const card: Card = { ...p.card, effects: p.card.effects.map(child => registry.build(child)), tags: p.card.tags ?? [] };
+    return new CreateCardEffect(card, p.zone, p.count, p.position, p.target);
+  },
+  serialize: (e, registry) => ({
+    card: {
+      id: e.card.id,
+      name: e.card.name,
+      cost: e.card.cost,
+      effects: e.card.effects.map(child => registry.serialize(child)),
+      tags: e.card.tags
+    },
+    zone: e.zone,
+    count: e.count,
+    position: e.position,
+    target: serializeTarget(e.target)
+  })
+};
+
+const chooseTargetEntry: EffectTypeEntry<{ effect: EffectDefinition; among?: TargetGroup }, ChooseTargetEffect> = {
+  type: 'chooseTarget',
+  description: "Lets the player pick a target, then resolves its effect against the 'chosen' player",
+  params: effect => z.object({ effect, among: z.enum(['enemies', 'allies', 'all']).optional() }),
+  create: (p, registry) => new ChooseTargetEffect(registry.build(p.effect), p.among),
+  serialize: (e, registry) => ({ effect: registry.serialize(e.effect), among: e.among })
+};
+
+function listEntry<E extends Effect & { readonly effects: Effect[] }>(
+  type: string,
+  description: string,
+  create: (effects: Effect[]) => E
+): EffectTypeEntry<{ effects: EffectDefinition[] }, E> {
+  return {
+    type,
+    description,
+    params: effect => z.object({ effects: z.array(effect) }),
+    create: (p, registry) => create(p.effects.map(child => registry.build(child))),
+    serialize: (e, registry) => ({ effects: e.effects.map(child => registry.serialize(child)) })
+  };
+}
+
+const policy = z.enum(['rollback', 'commit', 'continue']).optional();
+
+/** The default policy is left out so existing definitions round-trip unchanged. */
+const serializePolicy = (value: FailurePolicy): { policy?: FailurePolicy } =>
+  value === 'commit' ? {} : { policy: value };
+
+function orderedEntry<E extends Effect & { readonly effects: Effect[]; readonly policy: FailurePolicy }>(
+  type: string,
+  description: string,
+  create: (effects: Effect[], policy?: FailurePolicy) => E
+): EffectTypeEntry<{ effects: EffectDefinition[]; policy?: FailurePolicy }, E> {
+  return {
+    type,
+    description,
+    params: effect => z.object({ effects: z.array(effect), policy }),
+    create: (p, registry) => create(p.effects.map(child => registry.build(child)), p.policy),
+    serialize: (e, registry) => ({
+      effects: e.effects.map(child => registry.serialize(child)),
+      ...serializePolicy(e.policy)
+    })
+  };
+}
+
+const conditionalEntry: EffectTypeEntry<
+  { condition: z.infer<typeof ConditionDefinitionSchema>; effect: EffectDefinition },
+  ConditionalEffect
+> = {
+  type: 'conditional',
+  description: 'Resolves its effect only when the condition holds',
+  params: effect => z.object({ condition: ConditionDefinitionSchema, effect }),
+  create: (p, registry) => new ConditionalEffect(registry.build(p.effect), compileCondition(p.condition)),
+  serialize: (e, registry) => {
+    const condition = conditionSource(e.predicate);
+    if (!condition) {
+      throw new Error(`Cannot serialize conditional effect with a code predicate: ${e.description}`);
+    }
+    return { condition, effect: registry.serialize(e.effect) };
+  }
+};
+
+const captureEntry: EffectTypeEntry<{ key: string; effect: EffectDefinition; then: EffectDefinition }, CaptureEffect> = {
+  type: 'capture',
+  description: 'Resolves an effect, then another that can read its value as a captured value',
+  params: effect => z.object({ key: z.string().min(1), effect, then: effect }),
+  create: (p, registry) => new CaptureEffect(registry.build(p.effect), p.key, registry.build(p.then)),
+  serialize: (e, registry) => ({ key: e.key, effect: registry.serialize(e.effect), then: registry.serialize(e.then) })
+};
+
+type ScheduleParams = { effect: EffectDefinition; phase?: GamePhase; turns?: number; player?: TargetSpec; key?: string };
+
+const scheduleEntry: EffectTypeEntry<ScheduleParams, ScheduleEffect> = {
+  type: 'schedule',
+  description: 'Resolves an effect in a phase of a later turn',
+  params: effect => z.object({
+    effect,
+    phase: z.enum(['draw', 'main', 'discard', 'end']).optional(),
+    turns: z.number().int().positive().optional(),
+    player: TargetSchema.optional(),
+    key: z.string().min(1).optional()
+  }),
+  create: (p, registry) => new ScheduleEffect(registry.build(p.effect), p.phase, p.turns, p.player, p.key),
+  serialize: (e, registry) => ({
+    effect: registry.serialize(e.effect),
+    phase: e.phase,
+    turns: e.turns,
+    player: serializeTarget(e.player),
+    ...(e.key !== undefined ? { key: e.key } : {})
+  })
+};
+
+const cancelScheduledEntry: EffectTypeEntry<{ key: string; target?: TargetSpec }, CancelScheduledEffect> = {
+  type: 'cancelScheduled',
+  description: 'Cancels scheduled effects by their key',
+  params: z.object({ key: z.string().min(1), target: TargetSchema.optional() }),
+  create: p => new CancelScheduledEffect(p.key, p.target),
+  serialize: e => ({ key: e.key, target: serializeTarget(e.target) })
+};
+
+type RepeatedParams = { times: number; effect: EffectDefinition; policy?: FailurePolicy };
+
+const repeatedEntry: EffectTypeEntry<RepeatedParams, RepeatedEffect> = {
+  type: 'repeated',
+  description: 'Resolves its effect a fixed number of times',
+  params: effect => z.object({ times: count, effect, policy }),
+  create: (p, registry) => new RepeatedEffect(registry.build(p.effect), p.times, p.policy),
+  serialize: (e, registry) => ({ times: e.times, effect: registry.serialize(e.effect), ...serializePolicy(e.policy) })
+};
+
+export const builtinEffects: readonly EffectTypeEntry[] = [
+  damageEntry,
+  healEntry,
+  drawEntry,
+  resourceEntry,
+  costModifierEntry,
+  loseHealthEntry,
+  gainBlockEntry,
+  discardEntry,
+  exhaustEntry,
+  moveCardEntry,
+  shuffleIntoDeckEntry,
+  createCardEntry,
+  applyStatusEntry,
+  removeStatusEntry,
+  orderedEntry('composite', 'Resolves every effect in order; the policy decides what a failure does', (e, p) => new CompositeEffect(e, p)),
+  orderedEntry('sequential', 'Resolves effects one after another; the policy decides what a failure does', (e, p) => new SequentialEffect(e, p)),
+  listEntry('parallel', 'Resolves every effect against the same starting state and merges their changes', e => new ParallelEffect(e)),
+  conditionalEntry,
+  repeatedEntry,
+  captureEntry,
+  chooseTargetEntry,
+  scheduleEntry,
+  cancelScheduledEntry
+];
@@ -0,0 +1,47 @@
+import { Effect, GameContext } from './Effect';
+import type { Zone } from './Zone';
+
+export type GameEvent =
+  | { readonly type: 'damageDealt'; readonly source: string; readonly target: string; readonly amount: number; readonly blocked: number }
+  | { readonly type: 'healed'; readonly playerId: string; readonly amount: number }
+  | { readonly type: 'blockGained'; readonly playerId: string; readonly amount: number }
+  | { readonly type: 'healthZero'; readonly playerId: string }
+  | { readonly type: 'statusApplied'; readonly playerId: string; readonly status: string; readonly stacks: number }
+  | { readonly type: 'cardDrawn'; readonly playerId: string; readonly cardId: string }
+  | { readonly type: 'cardMoved'; readonly playerId: string; readonly cardId: string; readonly from: Zone; readonly to: Zone }
+  | { readonly type: 'cardCreated'; readonly playerId: string; readonly cardId: string; readonly zone: Zone }
+  | { readonly type: 'cardPlayed'; readonly playerId: string; readonly cardId: string }
+  | { readonly type: 'turnStarted'; readonly playerId: string; readonly turn: number }
+  | { readonly type: 'turnEnded'; readonly playerId: string; readonly turn: number };
+
+export type GameEventType = GameEvent['type'];
+
+/**
+ * Reaction to a game event. The effect resolves with the trigger's owner as the
+ * acting player and the event on `GameContext.event`.
+ */
+export interface TriggerDefinition {
+  readonly event: GameEventType;
+  readonly filter?: (event: GameEvent, context: GameContext) => boolean;
+  readonly effect: Effect;
+  /** Lower priorities fire first when several triggers match the same event. */
+  readonly priority?: number;
+}
+
+export interface Trigger extends TriggerDefinition {
+  readonly id: string;
+  readonly owner: string;
+  /** Where the trigger comes from, e.g. 'relic:anchor' or 'status:thorns'. */
+  readonly source: string;
+}
+
+/**
+ * The player an event is about: the target for damage, otherwise the player it names.
+ */
+export function eventPlayer(event: GameEvent): string {
+  return event.type === 'damageDealt' ? event.target : event.playerId;
+}
+
+/** Filter for triggers that only react to events about their owner. */
+export const ownEvents = (event: GameEvent, context: GameContext): boolean =>
+  eventPlayer(event) === context.playerId;
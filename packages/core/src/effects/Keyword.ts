@@ -0,0 +1,106 @@
+import { Card, Effect } from './Effect';
+import { Service } from './Context';
+import type { Zone } from './Zone';
+
+/**
+ * Rules a card follows when one of its tags is the keyword's id. Hooks resolve with
+ * the card's owner as the acting player.
+ */
+export interface KeywordDefinition {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  /** Put on top of the deck when the game starts, so it is in the opening hand. */
+  readonly innate?: boolean;
+  /** Stays in hand when the hand is discarded, without counting toward the hand limit. */
+  readonly retain?: boolean;
+  readonly unplayable?: boolean;
+  /** Where the card goes after it is played, instead of the discard pile. */
+  readonly afterPlay?: Zone;
+  /** Where the card goes when it is still in hand as the turn ends. */
+  readonly endOfTurn?: Zone;
+  /** Resolved after the card's own effects, as part of the play. */
+  readonly onPlay?: (card: Card) => Effect;
+  /** Resolved for cards in hand once the owner has drawn for the turn. */
+  readonly onTurnStart?: (card: Card) => Effect;
+  /** Resolved for cards in hand when the owner's 'discard' phase starts, before the hand is discarded. */
+  readonly onTurnEnd?: (card: Card) => Effect;
+}
+
+export class KeywordRegistry implements Service {
+  readonly id = 'keywordRegistry' as const;
+  private readonly definitions = new Map<string, KeywordDefinition>();
+
+  register(definition: KeywordDefinition): KeywordRegistry {
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`Keyword already registered: ${definition.id}`);
+    }
+    this.definitions.set(definition.id, definition);
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  get(id: string): KeywordDefinition {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`Unknown keyword: ${id}. Registered keywords: ${[...this.definitions.keys()].join(', ')}`);
+    }
+    return definition;
+  }
+
+  list(): KeywordDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /** The keywords among a card's tags, in tag order. Other tags are ignored. */
+  of(card: Card): KeywordDefinition[] {
+    return card.tags.filter(tag => this.definitions.has(tag)).map(tag => this.get(tag));
+  }
+
+  /** Whether any keyword of the card matches. */
+  some(card: Card, predicate: (definition: KeywordDefinition) => boolean): boolean {
+    return this.of(card).some(predicate);
+  }
+
+  static withBuiltins(): KeywordRegistry {
+    const registry = new KeywordRegistry();
+    builtinKeywords.forEach(definition => registry.register(definition));
+    return registry;
+  }
+}
+
+export const builtinKeywords: readonly KeywordDefinition[] = [
+  {
+    id: 'innate',
+    name: 'Innate',
+    description: 'Starts the game in the opening hand',
+    innate: true
+  },
+  {
+    id: 'retain',
+    name: 'Retain',
+    description: 'Is not discarded at the end of the turn',
+    retain: true
+  },
+  {
+    id: 'ethereal',
+    name: 'Ethereal',
+    description: 'Is exhausted if still in hand at the end of the turn',
+    endOfTurn: 'exhaust'
+  },
+  {
+    id: 'exhaust',
+    name: 'Exhaust',
+    description: 'Is removed from the game after it is played',
+    afterPlay: 'exhaust'
+  },
+  {
+    id: 'unplayable',
+    name: 'Unplayable',
+    description: 'Cannot be played',
+    unplayable: true
+  }
+];
@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { applyPatches } from 'immer';
+import { Effect, GameContext } from './Effect';
+import { ApplyStatusEffect, DamageEffect, DrawCardEffect, HealEffect, RemoveStatusEffect, ResourceEffect } from './primitives';
+import { ResourceRegistry } from './Resource';
+import { MergeConflict } from './Merge';
+import { createContext, createPlayer, createState } from '../testing/fixtures';
+
+describe('ParallelEffect merging', () => {
+  it('should keep changes from every branch', () => {
+    const effect = Effect.parallel([new DamageEffect(5, 'opponent'), new DamageEffect(3, 'self')]);
+    const result = effect.execute(createContext(createState(createPlayer('p1'), createPlayer('p2'))));
+
+    expect(result.success).to.be.true;
+    expect(result.newState.players['p2'].health).to.equal(45);
+    expect(result.newState.players['p1'].health).to.equal(47);
+  });
+
+  it('should combine numeric writes to the same field', () => {
+    const effect = Effect.parallel([
+      new DamageEffect(5),
+      new DamageEffect(3),
+      ResourceEffect.gain('energy', 1),
+      ResourceEffect.gain('energy', 2),
+      new ApplyStatusEffect('weak', 1, 'opponent'),
+      new ApplyStatusEffect('vulnerable', 2, 'opponent')
+    ]);
+    const result = effect.execute(createContext(createState(createPlayer('p1'), createPlayer('p2'))));
+
+    expect(result.newState.players['p2'].health).to.equal(42);
+    expect(result.newState.players['p1'].resources['energy']).to.equal(3);
+    expect(result.newState.players['p2'].statuses).to.deep.equal({ weak: { stacks: 1 }, vulnerable: { stacks: 2 } });
+  });
+
+  it('should keep combined health within 0 and the maximum', () => {
+    const state = createState(createPlayer('p1', { health: 48 }), createPlayer('p2', { health: 5 }));
+    const effect = Effect.parallel([new DamageEffect(5), new DamageEffect(5), new HealEffect(2), new HealEffect(2)]);
+    const result = effect.execute(createContext(state));
+
+    expect(result.success).to.be.true;
+    expect(result.newState.players['p2'].health).to.equal(0);
+    expect(result.newState.players['p1'].health).to.equal(50);
+  });
+
+  it('should keep combined resources within their rules', () => {
+    const state = createState(createPlayer('p1', { resources: { energy: 1 } }), createPlayer('p2'));
+    const spent = Effect.parallel([ResourceEffect.spend('energy', 1), ResourceEffect.spend('energy', 1)]).execute(createContext(state));
+    expect(spent.newState.players['p1'].resources['energy']).to.equal(0);
+
+    const resources = new ResourceRegistry().register({ id: 'energy', name: 'Energy', max: 4 });
+    const gained = Effect.parallel([ResourceEffect.gain('energy', 3), ResourceEffect.gain('energy', 3)])
+      .execute({ ...createContext(state), resources });
+    expect(gained.newState.players['p1'].resources['energy']).to.equal(4);
+  });
+
+  it('should report conflicting writes and leave the state unchanged', () => {
+    const deck = [1, 2, 3].map(n => ({ id: `c${n}`, name: `Card ${n}`, cost: 0, effects: [], tags: [] }));
+    const state = createState(createPlayer('p1', { deck, statuses: { weak: { stacks: 2 } } }), createPlayer('p2'));
+    const effect = Effect.parallel([
+      new DrawCardEffect(1),
+      new DrawCardEffect(2),
+      new RemoveStatusEffect('weak', undefined, 'self'),
+      new ApplyStatusEffect('weak', 1, 'self')
+    ]);
+    const result = effect.execute(createContext(state));
+
+    expect(result.success).to.be.false;
+    expect(result.newState).to.equal(state);
+    const conflicts = result.metadata!['conflicts'] as MergeConflict[];
+    expect(conflicts.map(c => c.path.join('.'))).to.include.members(['players.p1.hand', 'players.p1.statuses.weak.stacks']);
+    expect(result.failure).to.include({ index: 1, type: 'draw' });
+  });
+});
+
+describe('Patches', () => {
+  const effect = Effect.sequence([
+    new DamageEffect(5),
+    ResourceEffect.gain('energy', 2),
+    new ApplyStatusEffect('weak', 1, 'opponent').conditional(() => true)
+  ]);
+
+  it('should report patches that replay and undo the change', () => {
+    const state = createState(createPlayer('p1'), createPlayer('p2'));
+    const result = effect.execute(createContext(state));
+
+    expect(result.patches).to.deep.include({ op: 'replace', path: ['players', 'p2', 'health'], value: 45 });
+    expect(applyPatches(state, result.patches!)).to.deep.equal(result.newState);
+    expect(applyPatches(result.newState, result.inversePatches!)).to.deep.equal(state);
+  });
+
+  it('should derive patches for effects that do not report them', () => {
+    class Heal1 extends Effect {
+      readonly type = 'heal1';
+      readonly description = 'Heal 1';
+      execute(ctx: GameContext) {
+        const p1 = ctx.gameState.players['p1'];
+        const players = { ...ctx.gameState.players, 'p1': { ...p1, health: p1.health + 1 } };
+        return { success: true, newState: { ...ctx.gameState, players }, messages: [] };
+      }
+    }
+
+    const state = createState(createPlayer('p1', { health: 40 }), createPlayer('p2'));
+    const result = Effect.all([new Heal1(), new DamageEffect(2, 'self')]).execute(createContext(state));
+    expect(result.patches).to.have.length(2);
+    expect(applyPatches(result.newState, result.inversePatches!)).to.deep.equal(state);
+  });
+
+  it('should report the merged patches of parallel effects', () => {
+    const state = createState(createPlayer('p1'), createPlayer('p2'));
+    const result = Effect.parallel([new DamageEffect(5), new DamageEffect(3)]).execute(createContext(state));
+    expect(result.patches).to.deep.equal([{ op: 'replace', path: ['players', 'p2', 'health'], value: 42 }]);
+    expect(applyPatches(result.newState, result.inversePatches!)).to.deep.equal(state);
+  });
+});
@@ -0,0 +1,179 @@
+import { Patch, enablePatches, produceWithPatches } from 'immer';
+import type { EffectResult, GameContext, GameState } from './Effect';
+import { resourceRegistryOf } from './Resource';
+
+enablePatches();
+
+export type StatePath = readonly (string | number)[];
+
+export interface StateChange {
+  readonly path: StatePath;
+  readonly before: unknown;
+  readonly after: unknown;
+  /** The key no longer exists after the change. */
+  readonly removed?: boolean;
+}
+
+export interface MergeConflict {
+  readonly path: StatePath;
+  /** Indexes of the branches that wrote the path. */
+  readonly branches: number[];
+}
+
+/** Forward patches turn the old state into the new one; inverse patches undo them. */
+export interface StatePatches {
+  readonly patches: Patch[];
+  readonly inversePatches: Patch[];
+}
+
+/**
+ * Brings a numeric field whose deltas were added up back within its bounds. `state`
+ * is the merged state.
+ */
+export type MergeLimit = (path: StatePath, value: number, state: GameState) => number;
+
+export interface MergeResult extends StatePatches {
+  readonly state: GameState;
+  readonly conflicts: MergeConflict[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Lists the leaf values that differ between two states. Unchanged subtrees are
+ * skipped by reference, so this is cheap for states built with immer. Arrays are
+ * compared as a whole.
+ */
+export function diffState(before: unknown, after: unknown, path: StatePath = []): StateChange[] {
+  if (before === after) {
+    return [];
+  }
+
+  if (isRecord(after) && (isRecord(before) || before === undefined)) {
+    const previous = before ?? {};
+    const keys = new Set([...Object.keys(previous), ...Object.keys(after)]);
+
+    return [...keys].flatMap(key => key in after
+      ? diffState(previous[key], after[key], [...path, key])
+      : [{ path: [...path, key], before: previous[key], after: undefined, removed: true }]);
+  }
+
+  return [{ path, before, after }];
+}
+
+const pathKey = (path: StatePath): string => JSON.stringify(path);
+
+const isPrefix = (prefix: StatePath, path: StatePath): boolean =>
+  prefix.length < path.length && prefix.every((segment, index) => path[index] === segment);
+
+/**
+ * Merges states that were each derived from `base`. Writes to different fields are
+ * all kept; numeric writes to the same field add up their deltas, within `limit`;
+ * any other write to a field another branch also wrote is a conflict.
+ */
+export function mergeBranches(base: GameState, branches: readonly GameState[], limit?: MergeLimit): MergeResult {
+  const writes = new Map<string, StateChange & { branches: number[]; summed?: boolean }>();
+  const conflicts: MergeConflict[] = [];
+
+  branches.forEach((branch, index) => {
+    for (const change of diffState(base, branch)) {
+      const key = pathKey(change.path);
+      const existing = writes.get(key);
+      if (!existing) {
+        writes.set(key, { ...change, branches: [index] });
+        continue;
+      }
+
+      const branchesSoFar = [...existing.branches, index];
+      const before = change.before ?? 0;
+      if (typeof before === 'number' && typeof existing.after === 'number' && typeof change.after === 'number') {
+        writes.set(key, { ...existing, after: existing.after + change.after - before, branches: branchesSoFar, summed: true });
+      } else if (existing.after === change.after && existing.removed === change.removed) {
+        writes.set(key, { ...existing, branches: branchesSoFar });
+      } else {
+        conflicts.push({ path: change.path, branches: branchesSoFar });
+      }
+    }
+  });
+
+  const changes = [...writes.values()];
+  for (const removal of changes.filter(change => change.removed)) {
+    for (const change of changes) {
+      const others = change.branches.filter(branch => !removal.branches.includes(branch));
+      if (others.length > 0 && isPrefix(removal.path, change.path)) {
+        conflicts.push({ path: change.path, branches: [...removal.branches, ...others] });
+      }
+    }
+  }
+
+  const [state, patches, inversePatches] = produceWithPatches(base, (draft: any) => {
+    applyChanges(draft, changes);
+    if (limit) {
+      applyChanges(draft, changes
+        .filter(change => change.summed)
+        .map(change => ({ ...change, after: limit(change.path, change.after as number, draft) })));
+    }
+  });
+
+  return { state, conflicts, patches, inversePatches };
+}
+
+/**
+ * Limits for merged game states: health stays between 0 and the player's maximum,
+ * resources within the rules of the context's resource registry.
+ */
+export function gameStateLimits(context: GameContext): MergeLimit {
+  const resources = resourceRegistryOf(context);
+  return (path, value, state) => {
+    const [root, playerId, field, resourceId] = path;
+    const player = root === 'players' ? state.players[playerId] : undefined;
+    if (player && path.length === 3 && field === 'health') {
+      return Math.max(0, Math.min(player.maxHealth, value));
+    }
+    if (player && path.length === 4 && field === 'resources') {
+      return resources.clamp(String(resourceId), value);
+    }
+    return value;
+  };
+}
+
+function applyChanges(draft: any, changes: readonly StateChange[]): void {
+  for (const change of changes) {
+    const parentPath = change.path.slice(0, -1);
+    const last = change.path[change.path.length - 1];
+    const parent = parentPath.reduce((node, segment) => {
+      if (node[segment] === undefined) {
+        node[segment] = {};
+      }
+      return node[segment];
+    }, draft);
+
+    if (change.removed) {
+      delete parent[last];
+    } else {
+      parent[last] = change.after;
+    }
+  }
+}
+
+/**
+ * Patches of a result, derived from the two states when the effect did not report them.
+ */
+export function patchesOf(before: GameState, result: EffectResult): StatePatches {
+  if (result.patches && result.inversePatches) {
+    return { patches: result.patches, inversePatches: result.inversePatches };
+  }
+
+  const [, patches, inversePatches] = produceWithPatches(before, (draft: any) =>
+    applyChanges(draft, diffState(before, result.newState)));
+  return { patches, inversePatches };
+}
+
+/** Joins the patches of steps that were applied one after another. */
+export function joinPatches(steps: readonly StatePatches[]): StatePatches {
+  return {
+    patches: steps.flatMap(step => step.patches),
+    inversePatches: [...steps].reverse().flatMap(step => step.inversePatches)
+  };
+}
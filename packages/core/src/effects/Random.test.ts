@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { DrawCardEffect } from './primitives';
+import { SeededRandomGenerator } from './Random';
+import { createCard, createContext, createPlayer, createState } from '../testing/fixtures';
+
+const take = (generator: SeededRandomGenerator, count: number): number[] =>
+  Array.from({ length: count }, () => generator.next());
+
+describe('SeededRandomGenerator', () => {
+  it('should produce the same sequence for the same seed', () => {
+    expect(take(new SeededRandomGenerator(1234), 5)).to.deep.equal(take(new SeededRandomGenerator(1234), 5));
+    expect(take(new SeededRandomGenerator('run-7'), 5)).to.deep.equal(take(new SeededRandomGenerator('run-7'), 5));
+    expect(take(new SeededRandomGenerator(1234), 5)).to.not.deep.equal(take(new SeededRandomGenerator(1235), 5));
+  });
+
+  it('should spread values evenly over [0, 1)', () => {
+    const values = take(new SeededRandomGenerator(99), 10000);
+    const buckets = [0, 0, 0, 0];
+    values.forEach(value => buckets[Math.floor(value * 4)]++);
+
+    expect(values.every(value => value >= 0 && value < 1)).to.be.true;
+    buckets.forEach(count => expect(count).to.be.within(2300, 2700));
+  });
+
+  it('should continue from an exported state', () => {
+    const generator = new SeededRandomGenerator(5);
+    generator.stream('loot').next();
+    take(generator, 3);
+
+    const saved = JSON.parse(JSON.stringify(generator.getState()));
+    const expected = [...take(generator, 3), generator.stream('loot').next()];
+
+    const restored = SeededRandomGenerator.fromState(saved);
+    expect([...take(restored, 3), restored.stream('loot').next()]).to.deep.equal(expected);
+  });
+
+  it('should keep named streams independent', () => {
+    const plain = new SeededRandomGenerator(8);
+    const withLoot = new SeededRandomGenerator(8);
+    take(withLoot.stream('loot'), 10);
+    take(withLoot, 4);
+
+    expect(take(withLoot.stream('shuffle'), 5)).to.deep.equal(take(plain.stream('shuffle'), 5));
+    expect(plain.stream('shuffle')).to.equal(plain.stream('shuffle'));
+  });
+});
+
+describe('Reshuffling the discard pile', () => {
+  const cards = Array.from({ length: 8 }, (_, i) => createCard(`c${i}`, { name: `Card ${i}`, cost: 0 }));
+  const state = createState(createPlayer('p1', { health: 10, maxHealth: 10, discardPile: cards }));
+
+  const draw = (rng: SeededRandomGenerator): string[] => {
+    const context = createContext(state, { random: () => rng.next(), rng });
+    return new DrawCardEffect(8).execute(context).newState.players['p1'].hand.map(card => card.id);
+  };
+
+  it('should shuffle with the shuffle stream', () => {
+    const hand = draw(new SeededRandomGenerator(3));
+    expect(hand).to.have.members(cards.map(card => card.id));
+    expect(hand).to.not.deep.equal([...cards].reverse().map(card => card.id));
+    expect(draw(new SeededRandomGenerator(3))).to.deep.equal(hand);
+  });
+});
@@ -0,0 +1,133 @@
+import type { Service } from './Context';
+
+/**
+ * Saved position of a generator and of every stream split from it.
+ */
+export interface RandomState {
+  readonly seed: number;
+  readonly state: readonly [number, number, number, number];
+  readonly streams?: Readonly<Record<string, RandomState>>;
+}
+
+export interface RandomGenerator extends Service {
+  readonly id: 'random';
+  next(): number;
+  nextInt(min: number, max: number): number;
+  shuffle<T>(array: T[]): T[];
+  pick<T>(array: T[]): T;
+  /**
+   * Independent generator for one purpose, e.g. 'shuffle' or 'loot'. The same name
+   * always returns the same stream, and drawing from it never moves the others.
+   */
+  stream(name: string): RandomGenerator;
+  getState(): RandomState;
+  setState(state: RandomState): void;
+}
+
+/**
+ * Fisher-Yates shuffle of a copy of the array.
+ */
+export function shuffleWith<T>(array: readonly T[], random: () => number): T[] {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function splitmix32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x9e3779b9) >>> 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+}
+
+/**
+ * sfc32 generator. Seeds are reduced to 32 bits; strings are hashed.
+ */
+export class SeededRandomGenerator implements RandomGenerator {
+  readonly id = 'random' as const;
+  private seed: number;
+  private state: [number, number, number, number];
+  private readonly streams = new Map<string, SeededRandomGenerator>();
+
+  constructor(seed: number | string = Math.floor(Math.random() * 0x100000000)) {
+    this.seed = typeof seed === 'string' ? hashSeed(seed)
+      : Number.isInteger(seed) ? seed >>> 0
+      : Math.floor(seed * 0x100000000) >>> 0;
+
+    const fill = splitmix32(this.seed);
+    this.state = [fill(), fill(), fill(), fill()];
+  }
+
+  static fromState(state: RandomState): SeededRandomGenerator {
+    const generator = new SeededRandomGenerator(state.seed);
+    generator.setState(state);
+    return generator;
+  }
+
+  next(): number {
+    let [a, b, c, d] = this.state;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    this.state = [a >>> 0, b >>> 0, c >>> 0, d >>> 0];
+    return (t >>> 0) / 0x100000000;
+  }
+
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  shuffle<T>(array: T[]): T[] {
+    return shuffleWith(array, () => this.next());
+  }
+
+  pick<T>(array: T[]): T {
+    return array[this.nextInt(0, array.length - 1)];
+  }
+
+  stream(name: string): SeededRandomGenerator {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new SeededRandomGenerator(hashSeed(`${this.seed}:${name}`));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  getState(): RandomState {
+    const streams = Object.fromEntries([...this.streams].map(([name, stream]) => [name, stream.getState()]));
+    return {
+      seed: this.seed,
+      state: [...this.state],
+      ...(this.streams.size > 0 ? { streams } : {})
+    };
+  }
+
+  setState(state: RandomState): void {
+    this.seed = state.seed >>> 0;
+    this.state = [...state.state];
+    this.streams.clear();
+    for (const [name, saved] of Object.entries(state.streams ?? {})) {
+      this.streams.set(name, SeededRandomGenerator.fromState(saved));
+    }
+  }
+}
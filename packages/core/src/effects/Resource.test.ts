@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { GameContext, PlayerState } from './Effect';
+import { ResourceEffect } from './primitives';
+import { ResourceRegistry, expireResources, refillResources } from './Resource';
+import { createContext, createPlayer, createState } from '../testing/fixtures';
+
+const resources = new ResourceRegistry()
+  .register({ id: 'energy', name: 'Energy', start: 3, refill: 3, carryOver: false })
+  .register({ id: 'mana', name: 'Mana', max: 5, refill: 2 })
+  .register({ id: 'debt', name: 'Debt', allowNegative: true });
+
+const player = (overrides: Partial<PlayerState> = {}): PlayerState =>
+  createPlayer('p1', { resources: { energy: 1, mana: 4, debt: 0 }, ...overrides });
+
+const context = (p1: PlayerState = player()): GameContext => createContext(createState(p1), { resources });
+
+describe('Resources', () => {
+  it('should cap gains at the maximum and keep amounts from going negative', () => {
+    const gain = ResourceEffect.gain('mana', 3).execute(context());
+    expect(gain.newState.players['p1'].resources['mana']).to.equal(5);
+    expect(gain.value).to.equal(1);
+    expect(gain.messages).to.deep.equal(['p1 gains 1 mana (capped)']);
+
+    const set = ResourceEffect.set('energy', -2).execute(context());
+    expect(set.newState.players['p1'].resources['energy']).to.equal(0);
+
+    const spend = ResourceEffect.spend('energy', 2).execute(context());
+    expect(spend.success).to.be.false;
+  });
+
+  it('should let resources that allow it go negative', () => {
+    const result = ResourceEffect.spend('debt', 3).execute(context());
+    expect(result.success).to.be.true;
+    expect(result.newState.players['p1'].resources['debt']).to.equal(-3);
+  });
+
+  it('should leave undeclared resources alone', () => {
+    const result = ResourceEffect.gain('gold', 100).execute(context(player({ resources: { gold: 5 } })));
+    expect(result.newState.players['p1'].resources['gold']).to.equal(105);
+  });
+
+  it('should refill at the start of a turn and expire at the end', () => {
+    expect(refillResources(player(), resources)).to.deep.equal({ energy: 3, mana: 5, debt: 0 });
+    expect(expireResources(player(), resources)).to.deep.equal({ energy: 0, mana: 4, debt: 0 });
+  });
+
+  it('should keep energy as the game state sets it under the built-in rules', () => {
+    const builtins = ResourceRegistry.withBuiltins();
+    expect(refillResources(player(), builtins)).to.deep.equal(player().resources);
+    expect(expireResources(player(), builtins)).to.deep.equal(player().resources);
+  });
+
+  it('should show declared resources with their maximum', () => {
+    expect(resources.view(player({ resources: { mana: 2, gold: 7 } }))).to.deep.equal([
+      { id: 'energy', name: 'Energy', amount: 0 },
+      { id: 'mana', name: 'Mana', amount: 2, max: 5 },
+      { id: 'debt', name: 'Debt', amount: 0 },
+      { id: 'gold', name: 'gold', amount: 7 }
+    ]);
+  });
+});
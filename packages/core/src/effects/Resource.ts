@@ -0,0 +1,151 @@
+import { GameContext, PlayerState } from './Effect';
+import { Service } from './Context';
+
+/**
+ * Rules for a resource type. Resources without a definition have no rules: any
+ * amount is allowed and nothing changes it between turns.
+ */
+export interface ResourceDefinition {
+  readonly id: string;
+  readonly name: string;
+  /** Amounts above it are lost. Unlimited if omitted. */
+  readonly max?: number;
+  /** Amount a player begins the game with when their state does not set one. Defaults to 0. */
+  readonly start?: number;
+  /**
+   * Amount gained at the start of the owner's turn. Without carry-over the resource
+   * is set to it instead, e.g. energy back to 3.
+   */
+  readonly refill?: number;
+  /** Whether amounts left at the end of the owner's turn are kept. Defaults to true. */
+  readonly carryOver?: boolean;
+  /** Whether spending can take the amount below 0. Defaults to false. */
+  readonly allowNegative?: boolean;
+}
+
+/** A player's amount of a resource, as a client shows it. */
+export interface ResourceView {
+  readonly id: string;
+  readonly name: string;
+  readonly amount: number;
+  readonly max?: number;
+}
+
+export class ResourceRegistry implements Service {
+  readonly id = 'resourceRegistry' as const;
+  private readonly definitions = new Map<string, ResourceDefinition>();
+
+  register(definition: ResourceDefinition): ResourceRegistry {
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`Resource already registered: ${definition.id}`);
+    }
+    this.definitions.set(definition.id, definition);
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  get(id: string): ResourceDefinition {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`Unknown resource: ${id}. Registered resources: ${[...this.definitions.keys()].join(', ')}`);
+    }
+    return definition;
+  }
+
+  list(): ResourceDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Brings an amount within the resource's limits: no higher than its maximum and,
+   * unless it may go negative, no lower than 0.
+   */
+  clamp(id: string, amount: number): number {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      return amount;
+    }
+    const capped = definition.max !== undefined ? Math.min(definition.max, amount) : amount;
+    return definition.allowNegative ? capped : Math.max(0, capped);
+  }
+
+  /** Whether the resource may be spent below 0. */
+  allowsNegative(id: string): boolean {
+    return this.definitions.get(id)?.allowNegative ?? false;
+  }
+
+  /**
+   * The declared resources of a player, then any others they hold, for display.
+   */
+  view(player: PlayerState): ResourceView[] {
+    const declared = this.list().map(definition => ({
+      id: definition.id,
+      name: definition.name,
+      amount: player.resources[definition.id] ?? 0,
+      ...(definition.max !== undefined ? { max: definition.max } : {})
+    }));
+    const others = Object.entries(player.resources)
+      .filter(([id]) => !this.definitions.has(id))
+      .map(([id, amount]) => ({ id, name: id, amount }));
+    return [...declared, ...others];
+  }
+
+  static withBuiltins(): ResourceRegistry {
+    const registry = new ResourceRegistry();
+    builtinResources.forEach(definition => registry.register(definition));
+    return registry;
+  }
+}
+
+/**
+ * Energy, the resource plain costs are paid in. It has no turn rules, so the amounts a
+ * game state sets are kept; games that restore it every turn declare it themselves, e.g.
+ * `{ id: 'energy', name: 'Energy', start: 3, refill: 3, carryOver: false }`.
+ */
+export const builtinResources: readonly ResourceDefinition[] = [
+  {
+    id: 'energy',
+    name: 'Energy'
+  }
+];
+
+const builtinRegistry = ResourceRegistry.withBuiltins();
+
+/**
+ * The resource registry effects resolve against: the one on the context, or the built-ins.
+ */
+export function resourceRegistryOf(context: GameContext): ResourceRegistry {
+  return context.resources ?? builtinRegistry;
+}
+
+/**
+ * Resource amounts for the start of a player's turn: refilled, and capped to their maximum.
+ */
+export function refillResources(player: PlayerState, registry: ResourceRegistry): Record<string, number> {
+  const resources = { ...player.resources };
+  for (const definition of registry.list()) {
+    if (definition.refill === undefined) {
+      continue;
+    }
+    const current = resources[definition.id] ?? 0;
+    const carryOver = definition.carryOver ?? true;
+    resources[definition.id] = registry.clamp(definition.id, carryOver ? current + definition.refill : definition.refill);
+  }
+  return resources;
+}
+
+/**
+ * Resource amounts for the end of a player's turn: those that do not carry over drop to 0.
+ */
+export function expireResources(player: PlayerState, registry: ResourceRegistry): Record<string, number> {
+  const resources = { ...player.resources };
+  for (const definition of registry.list()) {
+    if (!(definition.carryOver ?? true) && resources[definition.id] > 0) {
+      resources[definition.id] = 0;
+    }
+  }
+  return resources;
+}
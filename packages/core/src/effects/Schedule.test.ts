@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { GameContext } from './Effect';
+import { defaultContext } from './Context';
+import { EffectRegistry } from './EffectRegistry';
+import { CancelScheduledEffect, DamageEffect, DrawCardEffect, ScheduleEffect } from './primitives';
+import { describeScheduled, listScheduled } from './Schedule';
+import { Value } from './Value';
+import { createContext, createPlayer, createState } from '../testing/fixtures';
+
+const gameState = createState(createPlayer('p1'), createPlayer('p2'));
+
+const context = (overrides: Partial<GameContext> = {}): GameContext =>
+  createContext(gameState, { services: defaultContext, ...overrides });
+
+describe('Scheduled effects', () => {
+  it('should store the effect in the game state for its owner', () => {
+    const schedule = new ScheduleEffect(new DamageEffect(30), 'draw', 3, 'self', 'bomb');
+    expect(schedule.description).to.equal('Deal 30 damage to opponent, at the start of your turn (3 turns from now)');
+
+    const result = schedule.execute(context());
+    expect(result.value).to.deep.equal(['scheduled-1']);
+    expect(listScheduled(result.newState, 'p1')).to.deep.equal([{
+      id: 'scheduled-1',
+      owner: 'p1',
+      playerId: 'p1',
+      phase: 'draw',
+      remaining: 3,
+      effect: { type: 'damage', amount: 30, target: 'opponent' },
+      description: 'Deal 30 damage to opponent',
+      key: 'bomb'
+    }]);
+    expect(listScheduled(result.newState, 'p2')).to.deep.equal([]);
+    expect(describeScheduled(listScheduled(result.newState)[0])).to.equal(
+      "Deal 30 damage to opponent, at the start of p1's turn (3 turns from now)");
+  });
+
+  it('should keep X, the picked target and captured values with the effect', () => {
+    const schedule = new ScheduleEffect(new DamageEffect(Value.add(Value.x(), Value.captured('drawn')), 'chosen'));
+    const result = schedule.execute(context({ x: 2, targetId: 'p2', values: { drawn: 3 } }));
+
+    expect(listScheduled(result.newState)[0].bindings).to.deep.equal({ x: 2, targetId: 'p2', values: { drawn: 3 } });
+  });
+
+  it('should be cancelled by key for the owners targeted', () => {
+    const first = new ScheduleEffect(new DrawCardEffect(2), 'draw', 1, 'self', 'haste').execute(context());
+    const both = new ScheduleEffect(new DrawCardEffect(1), 'end', 1, 'self', 'haste')
+      .execute(context({ playerId: 'p2', gameState: first.newState }));
+
+    const cancel = new CancelScheduledEffect('haste', 'opponent').execute(context({ gameState: both.newState }));
+    expect(cancel.value).to.equal(1);
+    expect(listScheduled(cancel.newState).map(entry => entry.owner)).to.deep.equal(['p1']);
+  });
+
+  it('should fail for effects that cannot be stored', () => {
+    const chained = new DamageEffect(1).chain(() => new DamageEffect(2));
+    const result = new ScheduleEffect(chained).execute(context());
+    expect(result.success).to.be.false;
+    expect(result.newState).to.equal(gameState);
+  });
+
+  it('should round-trip through the registry', () => {
+    const registry = EffectRegistry.withBuiltins();
+    const definition = {
+      type: 'schedule',
+      effect: { type: 'draw', count: 2, target: 'self' },
+      phase: 'end',
+      turns: 2,
+      player: 'opponent',
+      key: 'curse'
+    };
+    expect(registry.serialize(registry.create(definition))).to.deep.equal(definition);
+    expect(() => registry.create({ ...definition, turns: 0 })).to.throw(/turns/);
+  });
+});
@@ -0,0 +1,81 @@
+import { GameContext, GamePhase, GameState } from './Effect';
+import type { EffectDefinition } from './EffectRegistry';
+
+/**
+ * What a scheduled effect takes along from the resolution that scheduled it, so
+ * X, the picked target and captured values mean the same when it resolves.
+ */
+export interface ScheduleBindings {
+  readonly x?: number;
+  readonly paid?: Readonly<Record<string, number>>;
+  readonly targetId?: string;
+  readonly values?: Readonly<Record<string, number>>;
+}
+
+/**
+ * An effect waiting for a point in a later turn. The effect is kept in its
+ * declarative form so the schedule survives saving and loading the game state.
+ */
+export interface ScheduledEffect {
+  readonly id: string;
+  /** Player who scheduled it; the effect resolves with them as the acting player. */
+  readonly owner: string;
+  /** Player whose phase it waits for. */
+  readonly playerId: string;
+  readonly phase: GamePhase;
+  /** Times the phase has to start for that player before it resolves; 1 is the next time. */
+  readonly remaining: number;
+  readonly effect: EffectDefinition;
+  readonly description: string;
+  /** Name other effects can cancel it by, see `CancelScheduledEffect`. */
+  readonly key?: string;
+  readonly bindings?: ScheduleBindings;
+}
+
+/**
+ * The parts of a context a scheduled effect keeps, see `ScheduleBindings`.
+ */
+export function bindingsOf(context: GameContext): ScheduleBindings | undefined {
+  const bindings = Object.fromEntries(
+    (['x', 'paid', 'targetId', 'values'] as const)
+      .filter(key => context[key] !== undefined)
+      .map(key => [key, context[key]])
+  ) as ScheduleBindings;
+  return Object.keys(bindings).length > 0 ? bindings : undefined;
+}
+
+/**
+ * Scheduled effects in the order they were scheduled, optionally only those of one owner.
+ */
+export function listScheduled(state: GameState, owner?: string): ScheduledEffect[] {
+  return (state.scheduled ?? []).filter(entry => owner === undefined || entry.owner === owner);
+}
+
+export function nextScheduleId(state: GameState): string {
+  const taken = new Set(listScheduled(state).map(entry => entry.id));
+  let counter = 1;
+  while (taken.has(`scheduled-${counter}`)) {
+    counter++;
+  }
+  return `scheduled-${counter}`;
+}
+
+const points: Readonly<Record<GamePhase, string>> = {
+  draw: 'at the start of',
+  main: 'in the main phase of',
+  discard: 'in the discard phase of',
+  end: 'at the end of'
+};
+
+/**
+ * When a scheduled effect resolves, e.g. "at the start of opponent's turn (3 turns from now)".
+ */
+export function describeTiming(phase: GamePhase, turns: number, player: string): string {
+  const whose = player === 'self' ? 'your' : `${player}'s`;
+  return `${points[phase]} ${whose} turn${turns > 1 ? ` (${turns} turns from now)` : ''}`;
+}
+
+/** Text of a scheduled effect for display, with the time it has left. */
+export function describeScheduled(entry: ScheduledEffect): string {
+  return `${entry.description}, ${describeTiming(entry.phase, entry.remaining, entry.playerId)}`;
+}
@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import { ApplyStatusEffect, DamageEffect, RemoveStatusEffect } from './primitives';
+import { tickStatuses } from './Status';
+import { SimpleEventBus } from './Context';
+import { GameEngine } from '../engine/GameEngine';
+import { createContext, createPlayer, createState } from '../testing/fixtures';
+
+describe('Statuses', () => {
+  it('should add strength to outgoing damage and multiply it against vulnerable targets', () => {
+    const state = createState(
+      createPlayer('p1', { statuses: { strength: { stacks: 2 } } }),
+      createPlayer('p2', { statuses: { vulnerable: { stacks: 1, duration: 2 } } })
+    );
+    const result = new DamageEffect(6).execute(createContext(state));
+    expect(result.newState.players['p2'].health).to.equal(38);
+  });
+
+  it('should reduce damage dealt while weak', () => {
+    const state = createState(createPlayer('p1', { statuses: { weak: { stacks: 1, duration: 1 } } }), createPlayer('p2'));
+    const result = new DamageEffect(8).execute(createContext(state));
+    expect(result.newState.players['p2'].health).to.equal(44);
+  });
+
+  it('should stack applied statuses and remove them', () => {
+    const state = createState(createPlayer('p1'), createPlayer('p2'));
+    const applied = new ApplyStatusEffect('poison', 3)
+      .compose(new ApplyStatusEffect('poison', 2))
+      .execute(createContext(state));
+    expect(applied.newState.players['p2'].statuses).to.deep.equal({ poison: { stacks: 5 } });
+
+    const removed = new RemoveStatusEffect('poison', undefined, 'opponent').execute(createContext(applied.newState));
+    expect(removed.newState.players['p2'].statuses).to.deep.equal({});
+
+    const unknown = new ApplyStatusEffect('burning', 1).execute(createContext(state));
+    expect(unknown.success).to.be.false;
+  });
+
+  it('should expire durations at the end of the owner\'s turn', () => {
+    const state = createState(createPlayer('p1', { statuses: { weak: { stacks: 1, duration: 2 } } }), createPlayer('p2'));
+    const once = tickStatuses(createContext(state), 'end').newState;
+    expect(once.players['p1'].statuses).to.deep.equal({ weak: { stacks: 1, duration: 1 } });
+    expect(tickStatuses(createContext(once), 'end').newState.players['p1'].statuses).to.deep.equal({});
+  });
+
+  it('should tick poison at the start of the owner\'s turn', () => {
+    const state = { ...createState(createPlayer('p1'), createPlayer('p2', { statuses: { poison: { stacks: 3 } } })), phase: 'draw' as const };
+    const engine = new GameEngine(state, { drawCount: 0 });
+    engine.start();
+    expect(engine.state.players['p2'].health).to.equal(50);
+
+    engine.endTurn();
+    expect(engine.state.players['p2'].health).to.equal(47);
+    expect(engine.state.players['p2'].statuses).to.deep.equal({ poison: { stacks: 2 } });
+  });
+
+  it('should emit the events raised by a tick', () => {
+    const state = { ...createState(createPlayer('p1'), createPlayer('p2', { health: 2, statuses: { poison: { stacks: 3 } } })), phase: 'draw' as const };
+    const eventBus = new SimpleEventBus();
+    const fallen: unknown[] = [];
+    eventBus.subscribe('healthZero', data => fallen.push(data));
+    const engine = new GameEngine(state, { drawCount: 0, eventBus });
+    engine.start();
+    engine.endTurn();
+
+    expect(engine.state.players['p2'].health).to.equal(0);
+    expect(fallen).to.deep.equal([{ type: 'healthZero', playerId: 'p2' }]);
+    expect(tickStatuses(createContext({ ...state, currentPlayer: 'p2' }), 'draw').events).to.deep.equal([{ type: 'healthZero', playerId: 'p2' }]);
+  });
+});
@@ -0,0 +1,172 @@
+import { produceWithPatches } from 'immer';
+import { Effect, EffectResult, GameContext, GamePhase } from './Effect';
+import { Service } from './Context';
+import { GameEvent, TriggerDefinition } from './Events';
+import { StatePatches, joinPatches, patchesOf } from './Merge';
+import { LoseHealthEffect } from './primitives/LoseHealthEffect';
+
+export interface StatusInstance {
+  readonly stacks: number;
+  /** Remaining turns of the owner before the status wears off. Permanent if omitted. */
+  readonly duration?: number;
+}
+
+export interface StatusDefinition {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly kind: 'buff' | 'debuff';
+  /** Phase of the owner's turn in which `onTick` runs and `decay` applies. */
+  readonly tickOn?: GamePhase;
+  /** Effect resolved for the owner when the status ticks. */
+  readonly onTick?: (instance: StatusInstance) => Effect;
+  /** Stacks lost each time the status ticks. */
+  readonly decay?: number;
+  readonly modifyOutgoingDamage?: (amount: number, instance: StatusInstance) => number;
+  readonly modifyIncomingDamage?: (amount: number, instance: StatusInstance) => number;
+  /** Triggers owned by the player while they have the status. */
+  readonly triggers?: TriggerDefinition[];
+}
+
+export class StatusRegistry implements Service {
+  readonly id = 'statusRegistry' as const;
+  private readonly definitions = new Map<string, StatusDefinition>();
+
+  register(definition: StatusDefinition): StatusRegistry {
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`Status already registered: ${definition.id}`);
+    }
+    this.definitions.set(definition.id, definition);
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  get(id: string): StatusDefinition {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`Unknown status: ${id}. Registered statuses: ${[...this.definitions.keys()].join(', ')}`);
+    }
+    return definition;
+  }
+
+  list(): StatusDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  static withBuiltins(): StatusRegistry {
+    const registry = new StatusRegistry();
+    builtinStatuses.forEach(definition => registry.register(definition));
+    return registry;
+  }
+}
+
+export const builtinStatuses: readonly StatusDefinition[] = [
+  {
+    id: 'poison',
+    name: 'Poison',
+    description: 'Loses health equal to its stacks at the start of the turn, then loses a stack',
+    kind: 'debuff',
+    tickOn: 'draw',
+    onTick: instance => new LoseHealthEffect(instance.stacks),
+    decay: 1
+  },
+  {
+    id: 'strength',
+    name: 'Strength',
+    description: 'Deals extra damage equal to its stacks',
+    kind: 'buff',
+    modifyOutgoingDamage: (amount, instance) => amount + instance.stacks
+  },
+  {
+    id: 'weak',
+    name: 'Weak',
+    description: 'Deals 25% less damage',
+    kind: 'debuff',
+    modifyOutgoingDamage: amount => Math.floor(amount * 0.75)
+  },
+  {
+    id: 'vulnerable',
+    name: 'Vulnerable',
+    description: 'Takes 50% more damage',
+    kind: 'debuff',
+    modifyIncomingDamage: amount => Math.floor(amount * 1.5)
+  }
+];
+
+const builtinRegistry = StatusRegistry.withBuiltins();
+
+/**
+ * The status registry effects resolve against: the one on the context, or the built-ins.
+ */
+export function statusRegistryOf(context: GameContext): StatusRegistry {
+  return context.statuses ?? builtinRegistry;
+}
+
+/**
+ * Ticks the statuses of `context.playerId` for the phase that just started. Statuses
+ * with a matching `tickOn` resolve `onTick` and decay; at 'end' every duration drops by one.
+ * Events raised by `onTick` are returned for the engine to emit.
+ */
+export function tickStatuses(context: GameContext, phase: GamePhase): EffectResult {
+  const registry = statusRegistryOf(context);
+  const { playerId } = context;
+  let currentState = context.gameState;
+  const messages: string[] = [];
+  const events: GameEvent[] = [];
+  const steps: StatePatches[] = [];
+  const update = (recipe: (draft: any) => void): void => {
+    const [newState, patches, inversePatches] = produceWithPatches(currentState, recipe);
+    steps.push({ patches, inversePatches });
+    currentState = newState;
+  };
+
+  for (const [id, instance] of Object.entries(currentState.players[playerId]?.statuses ?? {})) {
+    const definition = registry.get(id);
+    if (definition.tickOn !== phase) {
+      continue;
+    }
+
+    if (definition.onTick) {
+      const result = definition.onTick(instance).execute({ ...context, gameState: currentState });
+      steps.push(patchesOf(currentState, result));
+      currentState = result.newState;
+      messages.push(...result.messages);
+      events.push(...(result.events ?? []));
+    }
+
+    const decay = definition.decay ?? 0;
+    if (decay > 0) {
+      update(draft => {
+        draft.players[playerId].statuses[id].stacks -= decay;
+      });
+    }
+  }
+
+  update(draft => {
+    const statuses = draft.players[playerId]?.statuses;
+    if (!statuses) {
+      return;
+    }
+
+    for (const [id, instance] of Object.entries(statuses) as [string, any][]) {
+      if (phase === 'end' && instance.duration !== undefined) {
+        instance.duration -= 1;
+      }
+      if (instance.stacks <= 0 || instance.duration === 0) {
+        delete statuses[id];
+        messages.push(`${playerId}'s ${registry.get(id).name} wears off`);
+      }
+    }
+  });
+
+  return {
+    success: true,
+    newState: currentState,
+    messages,
+    events,
+    ...joinPatches(steps)
+  };
+}
@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import { GameContext } from './Effect';
+import { DamageEffect, HealEffect } from './primitives';
+import { Target, resolveTargets } from './Target';
+import { createContext, createPlayer, createState } from '../testing/fixtures';
+
+const player = (id: string, team: string, health: number) => createPlayer(id, { team, health });
+
+const gameState = createState(player('p1', 'red', 40), player('p2', 'blue', 30), player('p3', 'red', 20), player('p4', 'blue', 10));
+
+const context = (overrides: Partial<GameContext> = {}): GameContext =>
+  createContext(gameState, { random: () => 0.99, ...overrides });
+
+describe('Targets', () => {
+  it('should resolve team-aware groups', () => {
+    expect(resolveTargets('self', context())).to.deep.equal(['p1']);
+    expect(resolveTargets('opponent', context())).to.deep.equal(['p2']);
+    expect(resolveTargets('opponent', context({ playerId: 'p4' }))).to.deep.equal(['p1']);
+    expect(resolveTargets(Target.enemies(), context())).to.deep.equal(['p2', 'p4']);
+    expect(resolveTargets(Target.allies(), context())).to.deep.equal(['p1', 'p3']);
+    expect(resolveTargets('ally', context())).to.deep.equal(['p3']);
+    expect(resolveTargets('all', context())).to.have.length(4);
+  });
+
+  it('should resolve chosen, random, lowest-health and filtered targets', () => {
+    expect(resolveTargets('chosen', context({ targetId: 'p3' }))).to.deep.equal(['p3']);
+    expect(resolveTargets('randomEnemy', context())).to.deep.equal(['p4']);
+    expect(resolveTargets(Target.lowestHealth('enemies'), context())).to.deep.equal(['p4']);
+    expect(resolveTargets(Target.lowestHealth('allies'), context())).to.deep.equal(['p3']);
+    expect(resolveTargets(Target.filter(p => p.health >= 30), context())).to.deep.equal(['p1', 'p2']);
+  });
+
+  it('should report when no valid target exists', () => {
+    const result = new DamageEffect(5, 'chosen').execute(context());
+    expect(result.success).to.be.false;
+    expect(result.newState).to.equal(gameState);
+    expect(result.messages).to.deep.equal(['No valid target: chosen player']);
+  });
+
+  it('should heal allies instead of the opponent', () => {
+    const result = new HealEffect(5, 'ally').execute(context());
+    expect(result.newState.players['p3'].health).to.equal(25);
+    expect(result.newState.players['p2'].health).to.equal(30);
+  });
+
+  it('should hit every enemy when there are more than two players', () => {
+    const result = new DamageEffect(5, Target.enemies()).execute(context());
+    expect(result.newState.players['p2'].health).to.equal(25);
+    expect(result.newState.players['p4'].health).to.equal(5);
+    expect(result.newState.players['p3'].health).to.equal(20);
+  });
+});
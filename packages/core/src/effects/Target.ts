@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import { EffectResult, GameContext, GameState, PlayerState } from './Effect';
+
+export type TargetGroup = 'enemies' | 'allies' | 'all';
+
+/**
+ * Who an effect applies to. Allies share the acting player's `team`; a player
+ * without a team is only allied with themselves.
+ */
+export type Target =
+  | { readonly kind: 'self' }
+  /** The next enemy in seat order after the acting player. */
+  | { readonly kind: 'opponent' }
+  /** The player picked when the card was played (`GameContext.targetId`). */
+  | { readonly kind: 'chosen' }
+  | { readonly kind: 'player'; readonly playerId: string }
+  | { readonly kind: 'enemies' }
+  | { readonly kind: 'allies'; readonly includeSelf?: boolean }
+  | { readonly kind: 'all' }
+  | { readonly kind: 'randomEnemy' }
+  | { readonly kind: 'lowestHealth'; readonly among: TargetGroup }
+  | {
+      readonly kind: 'filter';
+      readonly among: TargetGroup;
+      readonly predicate: (player: PlayerState, context: GameContext) => boolean;
+      readonly description?: string;
+    };
+
+/** Shorthands accepted wherever a target is expected. 'ally' means allies other than yourself. */
+export type TargetKeyword = 'self' | 'opponent' | 'chosen' | 'enemies' | 'allies' | 'ally' | 'all' | 'randomEnemy';
+
+export type TargetSpec = Target | TargetKeyword;
+
+export const Target = {
+  self: (): Target => ({ kind: 'self' }),
+  opponent: (): Target => ({ kind: 'opponent' }),
+  chosen: (): Target => ({ kind: 'chosen' }),
+  player: (playerId: string): Target => ({ kind: 'player', playerId }),
+  enemies: (): Target => ({ kind: 'enemies' }),
+  allies: (includeSelf = true): Target => ({ kind: 'allies', includeSelf }),
+  all: (): Target => ({ kind: 'all' }),
+  randomEnemy: (): Target => ({ kind: 'randomEnemy' }),
+  lowestHealth: (among: TargetGroup = 'enemies'): Target => ({ kind: 'lowestHealth', among }),
+  filter: (
+    predicate: (player: PlayerState, context: GameContext) => boolean,
+    among: TargetGroup = 'all',
+    description?: string
+  ): Target => ({ kind: 'filter', among, predicate, description })
+};
+
+const group = z.enum(['enemies', 'allies', 'all']);
+
+/** Schema for the serializable targets; 'filter' holds code and is left out. */
+export const TargetSchema: z.ZodType<TargetSpec> = z.union([
+  z.enum(['self', 'opponent', 'chosen', 'enemies', 'allies', 'ally', 'all', 'randomEnemy']),
+  z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('self') }),
+    z.object({ kind: z.literal('opponent') }),
+    z.object({ kind: z.literal('chosen') }),
+    z.object({ kind: z.literal('player'), playerId: z.string().min(1) }),
+    z.object({ kind: z.literal('enemies') }),
+    z.object({ kind: z.literal('allies'), includeSelf: z.boolean().optional() }),
+    z.object({ kind: z.literal('all') }),
+    z.object({ kind: z.literal('randomEnemy') }),
+    z.object({ kind: z.literal('lowestHealth'), among: group })
+  ])
+]);
+
+export function toTarget(spec: TargetSpec): Target {
+  if (typeof spec !== 'string') {
+    return spec;
+  }
+  return spec === 'ally' ? { kind: 'allies', includeSelf: false } : { kind: spec };
+}
+
+export function areAllies(state: GameState, a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  const teamA = state.players[a]?.team;
+  return teamA !== undefined && teamA === state.players[b]?.team;
+}
+
+function inGroup(group: TargetGroup, context: GameContext): string[] {
+  const { gameState, playerId } = context;
+  const ids = Object.keys(gameState.players);
+  switch (group) {
+    case 'enemies':
+      return ids.filter(id => !areAllies(gameState, playerId, id));
+    case 'allies':
+      return ids.filter(id => areAllies(gameState, playerId, id));
+    case 'all':
+      return ids;
+  }
+}
+
+/**
+ * Returns the ids of the players a target refers to, in seat order. An empty
+ * list means there is no valid target.
+ */
+export function resolveTargets(spec: TargetSpec, context: GameContext): string[] {
+  const { gameState, playerId } = context;
+  const target = toTarget(spec);
+
+  switch (target.kind) {
+    case 'self':
+      return gameState.players[playerId] ? [playerId] : [];
+
+    case 'opponent': {
+      const ids = Object.keys(gameState.players);
+      const start = ids.indexOf(playerId);
+      const seatOrder = [...ids.slice(start + 1), ...ids.slice(0, Math.max(start, 0))];
+      const next = seatOrder.find(id => !areAllies(gameState, playerId, id));
+      return next ? [next] : [];
+    }
+
+    case 'chosen':
+      return context.targetId && gameState.players[context.targetId] ? [context.targetId] : [];
+
+    case 'player':
+      return gameState.players[target.playerId] ? [target.playerId] : [];
+
+    case 'enemies':
+    case 'all':
+      return inGroup(target.kind, context);
+
+    case 'allies':
+      return inGroup('allies', context).filter(id => target.includeSelf !== false || id !== playerId);
+
+    case 'randomEnemy': {
+      const enemies = inGroup('enemies', context);
+      return enemies.length > 0 ? [enemies[Math.floor(context.random() * enemies.length)]] : [];
+    }
+
+    case 'lowestHealth': {
+      const candidates = inGroup(target.among, context).filter(id => gameState.players[id].health > 0);
+      const lowest = candidates.reduce<string | undefined>((best, id) =>
+        best === undefined || gameState.players[id].health < gameState.players[best].health ? id : best, undefined);
+      return lowest ? [lowest] : [];
+    }
+
+    case 'filter':
+      return inGroup(target.among, context).filter(id => target.predicate(gameState.players[id], context));
+  }
+}
+
+export function describeTarget(spec: TargetSpec): string {
+  const target = toTarget(spec);
+  switch (target.kind) {
+    case 'self': return 'self';
+    case 'opponent': return 'opponent';
+    case 'chosen': return 'chosen player';
+    case 'player': return target.playerId;
+    case 'enemies': return 'all enemies';
+    case 'allies': return target.includeSelf === false ? 'allies' : 'all allies';
+    case 'all': return 'all';
+    case 'randomEnemy': return 'a random enemy';
+    case 'lowestHealth': return `lowest-health of ${target.among}`;
+    case 'filter': return target.description ?? `matching ${target.among}`;
+  }
+}
+
+export function noValidTarget(spec: TargetSpec, context: GameContext): EffectResult<never> {
+  return {
+    success: false,
+    newState: context.gameState,
+    messages: [`No valid target: ${describeTarget(spec)}`],
+    metadata: { noValidTarget: true }
+  };
+}
+
+/**
+ * Throws for targets that cannot be written out as data.
+ */
+export function serializeTarget(spec: TargetSpec): TargetSpec {
+  if (typeof spec !== 'string' && spec.kind === 'filter') {
+    throw new Error(`Cannot serialize a filter target: ${describeTarget(spec)}`);
+  }
+  return spec;
+}
@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import { GameContext } from './Effect';
+import { EffectRegistry } from './EffectRegistry';
+import { CostModifierEffect, DamageEffect, DrawCardEffect, GainBlockEffect, HealEffect, RemoveStatusEffect } from './primitives';
+import { Value, describeValue, resolveValue } from './Value';
+import { createCard, createContext, createPlayer, createState } from '../testing/fixtures';
+
+const gameState = createState(
+  createPlayer('p1', {
+    health: 40,
+    block: 7,
+    statuses: { poison: { stacks: 5 } },
+    hand: [createCard('a'), createCard('b')],
+    deck: [createCard('c'), createCard('d'), createCard('e')],
+    resources: { energy: 2 }
+  }),
+  createPlayer('p2', { health: 30 })
+);
+
+const context = (overrides: Partial<GameContext> = {}): GameContext => createContext(gameState, overrides);
+
+describe('Values', () => {
+  it('should read player stats and combine them', () => {
+    expect(resolveValue(Value.stat('block'), context())).to.equal(7);
+    expect(resolveValue(Value.stat('health', 'opponent'), context())).to.equal(30);
+    expect(resolveValue(Value.resource('energy'), context())).to.equal(2);
+    expect(resolveValue(Value.multiply(Value.stat('handSize'), 3), context())).to.equal(6);
+    expect(resolveValue(Value.divide(Value.stat('deckSize'), 2), context())).to.equal(1);
+    expect(resolveValue(Value.min(Value.stat('block'), 5), context())).to.equal(5);
+    expect(resolveValue(Value.max(Value.x(), 1), context({ x: 4 }))).to.equal(4);
+  });
+
+  it('should render values in descriptions', () => {
+    expect(describeValue(6)).to.equal('6');
+    expect(describeValue(Value.add(Value.multiply(Value.stat('block'), 2), 1))).to.equal('((your block * 2) + 1)');
+    expect(new DamageEffect(Value.stat('block')).description).to.equal('Deal (your block) damage to opponent');
+    expect(new DrawCardEffect(Value.resource('energy')).description).to.equal('Draw (your energy) cards (self)');
+    expect(CostModifierEffect.discount('energy', Value.x(), 1).description).to.equal('next card cost (X) less energy (self)');
+    expect(new RemoveStatusEffect('poison', Value.x()).description).to.equal('Remove (X) poison from self');
+  });
+
+  it('should resolve primitive amounts when the effect resolves', () => {
+    const result = new DamageEffect(Value.stat('block')).execute(context());
+    expect(result.newState.players['p2'].health).to.equal(23);
+
+    const draw = new DrawCardEffect(Value.resource('energy')).execute(context());
+    expect(draw.value).to.have.length(2);
+
+    const block = new GainBlockEffect(Value.subtract(1, 5)).execute(context());
+    expect(block.value).to.equal(0);
+
+    const discount = CostModifierEffect.discount('energy', Value.stat('handSize'), 1).execute(context());
+    expect(discount.newState.players['p1'].costModifiers).to.deep.equal([{ resource: 'energy', amount: -2, uses: 1 }]);
+
+    const cure = new RemoveStatusEffect('poison', Value.resource('energy')).execute(context());
+    expect(cure.newState.players['p1'].statuses).to.deep.equal({ poison: { stacks: 3 } });
+  });
+
+  it('should pass captured values on to the next effect', () => {
+    const drain = new DamageEffect(8).capture('dealt', new HealEffect(Value.divide(Value.captured('dealt'), 2)));
+    const result = drain.execute(context());
+
+    expect(result.success).to.be.true;
+    expect(result.value).to.equal(4);
+    expect(result.newState.players['p1'].health).to.equal(44);
+    expect(drain.description).to.equal('Deal 8 damage to opponent, then Heal (dealt / 2) to self');
+  });
+
+  it('should load and serialize value expressions', () => {
+    const registry = EffectRegistry.withBuiltins();
+    const definition = {
+      type: 'capture',
+      key: 'drawn',
+      effect: { type: 'draw', count: { kind: 'stat', stat: 'resource', resource: 'energy' } },
+      then: { type: 'gainBlock', amount: { kind: 'multiply', left: { kind: 'captured', key: 'drawn' }, right: 3 } }
+    };
+    const effect = registry.create(definition);
+
+    expect(effect.execute(context()).newState.players['p1'].block).to.equal(13);
+    expect(registry.serialize(effect)).to.deep.equal({
+      ...definition,
+      effect: { ...definition.effect, target: 'self' },
+      then: { ...definition.then, target: 'self' }
+    });
+    expect(() => registry.create({ type: 'damage', amount: { kind: 'stat', stat: 'luck' } })).to.throw(/amount\.stat/);
+    expect(() => registry.create({ type: 'damage', amount: -2 })).to.throw(/amount: Number must be greater/);
+
+    const modifiers = [
+      { type: 'costModifier', resource: 'energy', amount: { kind: 'subtract', left: 0, right: { kind: 'x' } }, uses: 1, target: 'self' },
+      { type: 'removeStatus', status: 'poison', stacks: { kind: 'captured', key: 'drawn' }, target: 'self' }
+    ];
+    expect(modifiers.map(m => registry.serialize(registry.create(m)))).to.deep.equal(modifiers);
+    expect(() => registry.create({ type: 'removeStatus', status: 'poison', stacks: 0 })).to.throw(/stacks: Number must be greater/);
+  });
+});
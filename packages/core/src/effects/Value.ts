@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { GameContext, PlayerState } from './Effect';
+import { resolveTargets } from './Target';
+
+export type PlayerStat = 'health' | 'maxHealth' | 'block' | 'handSize' | 'deckSize' | 'discardSize' | 'resource';
+
+/**
+ * An amount worked out when the effect resolves.
+ */
+export type Value =
+  | {
+      readonly kind: 'stat';
+      readonly stat: PlayerStat;
+      readonly resource?: string;
+      readonly player?: 'self' | 'opponent';
+    }
+  /** Amount chosen for an X-cost card (`GameContext.x`). */
+  | { readonly kind: 'x' }
+  /** Value of an earlier effect, see `Effect.capture`. */
+  | { readonly kind: 'captured'; readonly key: string }
+  | { readonly kind: 'add' | 'subtract' | 'multiply' | 'divide'; readonly left: ValueSpec; readonly right: ValueSpec }
+  | { readonly kind: 'min' | 'max'; readonly values: readonly ValueSpec[] };
+
+/** A plain number is a constant. */
+export type ValueSpec = number | Value;
+
+export const Value = {
+  stat: (stat: Exclude<PlayerStat, 'resource'>, player: 'self' | 'opponent' = 'self'): Value =>
+    ({ kind: 'stat', stat, player }),
+  resource: (resource: string, player: 'self' | 'opponent' = 'self'): Value =>
+    ({ kind: 'stat', stat: 'resource', resource, player }),
+  x: (): Value => ({ kind: 'x' }),
+  captured: (key: string): Value => ({ kind: 'captured', key }),
+  add: (left: ValueSpec, right: ValueSpec): Value => ({ kind: 'add', left, right }),
+  subtract: (left: ValueSpec, right: ValueSpec): Value => ({ kind: 'subtract', left, right }),
+  multiply: (left: ValueSpec, right: ValueSpec): Value => ({ kind: 'multiply', left, right }),
+  /** Rounds down. */
+  divide: (left: ValueSpec, right: ValueSpec): Value => ({ kind: 'divide', left, right }),
+  min: (...values: ValueSpec[]): Value => ({ kind: 'min', values }),
+  max: (...values: ValueSpec[]): Value => ({ kind: 'max', values })
+};
+
+const stats = ['health', 'maxHealth', 'block', 'handSize', 'deckSize', 'discardSize', 'resource'] as const;
+
+const expression: z.ZodType<Value> = z.lazy(() => z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('stat'),
+    stat: z.enum(stats),
+    resource: z.string().min(1).optional(),
+    player: z.enum(['self', 'opponent']).optional()
+  }),
+  z.object({ kind: z.literal('x') }),
+  z.object({ kind: z.literal('captured'), key: z.string().min(1) }),
+  z.object({ kind: z.enum(['add', 'subtract', 'multiply', 'divide']), left: ValueSchema, right: ValueSchema }),
+  z.object({ kind: z.enum(['min', 'max']), values: z.array(ValueSchema).min(1) })
+]).refine(v => v.kind !== 'stat' || v.stat !== 'resource' || v.resource !== undefined, {
+  message: "A 'resource' stat needs a resource name",
+  path: ['resource']
+}));
+
+/**
+ * Schema for a value whose plain numbers must match `constant`. Objects are checked as
+ * expressions and anything else as a constant, so errors name what was expected.
+ */
+export function valueSchema(constant: z.ZodType<number>): z.ZodType<ValueSpec> {
+  return z.custom<ValueSpec>().superRefine((value, ctx) => {
+    const parsed = (typeof value === 'object' && value !== null ? expression : constant).safeParse(value);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: issue.path });
+      }
+    }
+  });
+}
+
+export const ValueSchema: z.ZodType<ValueSpec> = valueSchema(z.number());
+
+export function readStat(player: PlayerState, stat: PlayerStat, resource?: string): number {
+  switch (stat) {
+    case 'health':
+      return player.health;
+    case 'maxHealth':
+      return player.maxHealth;
+    case 'block':
+      return player.block ?? 0;
+    case 'handSize':
+      return player.hand.length;
+    case 'deckSize':
+      return player.deck.length;
+    case 'discardSize':
+      return player.discardPile.length;
+    case 'resource':
+      return player.resources[resource!] || 0;
+  }
+}
+
+/**
+ * Works out a value against the context. Missing players, X and captured values count as 0.
+ */
+export function resolveValue(spec: ValueSpec, context: GameContext): number {
+  if (typeof spec === 'number') {
+    return spec;
+  }
+
+  switch (spec.kind) {
+    case 'stat': {
+      const [playerId] = resolveTargets(spec.player ?? 'self', context);
+      return playerId ? readStat(context.gameState.players[playerId], spec.stat, spec.resource) : 0;
+    }
+    case 'x':
+      return context.x ?? 0;
+    case 'captured':
+      return context.values?.[spec.key] ?? 0;
+    case 'add':
+      return resolveValue(spec.left, context) + resolveValue(spec.right, context);
+    case 'subtract':
+      return resolveValue(spec.left, context) - resolveValue(spec.right, context);
+    case 'multiply':
+      return resolveValue(spec.left, context) * resolveValue(spec.right, context);
+    case 'divide': {
+      const divisor = resolveValue(spec.right, context);
+      return divisor === 0 ? 0 : Math.floor(resolveValue(spec.left, context) / divisor);
+    }
+    case 'min':
+      return Math.min(...spec.values.map(value => resolveValue(value, context)));
+    case 'max':
+      return Math.max(...spec.values.map(value => resolveValue(value, context)));
+  }
+}
+
+const statNames: Record<PlayerStat, string> = {
+  health: 'health',
+  maxHealth: 'max health',
+  block: 'block',
+  handSize: 'hand size',
+  deckSize: 'deck size',
+  discardSize: 'discard pile size',
+  resource: 'resource'
+};
+
+const operators = { add: '+', subtract: '-', multiply: '*', divide: '/' };
+
+function render(spec: ValueSpec, nested: boolean): string {
+  if (typeof spec === 'number') {
+    return `${spec}`;
+  }
+
+  switch (spec.kind) {
+    case 'stat': {
+      const owner = spec.player === 'opponent' ? "opponent's" : 'your';
+      return `${owner} ${spec.stat === 'resource' ? spec.resource : statNames[spec.stat]}`;
+    }
+    case 'x':
+      return 'X';
+    case 'captured':
+      return spec.key;
+    case 'add':
+    case 'subtract':
+    case 'multiply':
+    case 'divide': {
+      const text = `${render(spec.left, true)} ${operators[spec.kind]} ${render(spec.right, true)}`;
+      return nested ? `(${text})` : text;
+    }
+    case 'min':
+    case 'max':
+      return `${spec.kind}(${spec.values.map(value => render(value, false)).join(', ')})`;
+  }
+}
+
+/**
+ * Text for descriptions: constants as they are, anything else in parentheses,
+ * e.g. `(your block * 2)`.
+ */
+export function describeValue(spec: ValueSpec): string {
+  return typeof spec === 'number' ? `${spec}` : `(${render(spec, false)})`;
+}
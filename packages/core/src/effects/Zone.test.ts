@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import { Card, GameContext } from './Effect';
+import { ChoiceQueue } from './Choice';
+import { EffectRegistry } from './EffectRegistry';
+import { CreateCardEffect, DiscardEffect, ExhaustEffect, MoveCardEffect, ShuffleIntoDeckEffect } from './primitives';
+import { SeededRandomGenerator } from './Random';
+import { zoneCards } from './Zone';
+import { createCard, createContext, createPlayer, createState } from '../testing/fixtures';
+
+const card = (id: string): Card => createCard(id, { name: id.toUpperCase() });
+
+const gameState = createState(
+  createPlayer('p1', {
+    health: 30,
+    maxHealth: 30,
+    hand: [card('a'), card('b')],
+    deck: [card('c'), card('d')],
+    discardPile: [card('e'), card('f'), card('g')],
+    zones: { exhaust: [card('h')] }
+  }),
+  createPlayer('p2', { health: 30, maxHealth: 30 })
+);
+
+const context = (...answers: string[][]): GameContext =>
+  createContext(gameState, { rng: new SeededRandomGenerator(3), choices: new ChoiceQueue(answers) });
+
+const ids = (cards: readonly Card[]): string[] => cards.map(c => c.id);
+
+describe('Zones', () => {
+  it('should put a chosen card from the discard pile on top of the deck', () => {
+    const effect = new MoveCardEffect('discard', 'deck');
+    expect(effect.description).to.equal('Move 1 card of choice from discard pile to the top of deck (self)');
+    expect(effect.execute(context()).pending!.options.map(o => o.id)).to.deep.equal(['e', 'f', 'g']);
+
+    const result = effect.execute(context(['f']));
+    const p1 = result.newState.players['p1'];
+    expect(ids(p1.deck)).to.deep.equal(['c', 'd', 'f']);
+    expect(ids(p1.discardPile)).to.deep.equal(['e', 'g']);
+    expect(result.events).to.deep.equal([{ type: 'cardMoved', playerId: 'p1', cardId: 'f', from: 'discard', to: 'deck' }]);
+  });
+
+  it('should exhaust cards into their own zone', () => {
+    const result = new ExhaustEffect(2, 'self', 'all').execute(context());
+    const p1 = result.newState.players['p1'];
+
+    expect(ids(p1.hand)).to.deep.equal([]);
+    expect(ids(zoneCards(p1, 'exhaust'))).to.deep.equal(['h', 'a', 'b']);
+    expect(result.events!.map(e => e.type === 'cardMoved' && `${e.from}->${e.to}`)).to.deep.equal(['hand->exhaust', 'hand->exhaust']);
+  });
+
+  it('should shuffle a zone into the deck', () => {
+    const result = new ShuffleIntoDeckEffect().execute(context());
+    const p1 = result.newState.players['p1'];
+
+    expect(p1.discardPile).to.have.length(0);
+    expect(ids(p1.deck).sort()).to.deep.equal(['c', 'd', 'e', 'f', 'g']);
+    expect(result.events).to.have.length(3);
+  });
+
+  it('should move only the picked copy of cards that share an id', () => {
+    const upgraded = { ...card('a'), name: 'A+' };
+    const state = createState(createPlayer('p1', { hand: [card('a'), upgraded, card('b')] }), createPlayer('p2'));
+    const result = new MoveCardEffect('hand', 'discard', 1, 'top').execute(createContext(state));
+    const p1 = result.newState.players['p1'];
+
+    expect(ids(p1.hand)).to.deep.equal(['a', 'a']);
+    expect(p1.hand[1]).to.equal(upgraded);
+    expect(p1.discardPile.map(c => c.name)).to.deep.equal(['B']);
+
+    const moved = new MoveCardEffect('hand', 'discard', 1, 'bottom').execute(createContext(state)).newState.players['p1'];
+    expect(moved.hand.map(c => c.name)).to.deep.equal(['A+', 'B']);
+    expect(moved.discardPile.map(c => c.name)).to.deep.equal(['A']);
+  });
+
+  it('should pick one copy per answered id when copies share an id', () => {
+    const state = createState(createPlayer('p1', { hand: [card('strike'), card('strike'), card('b')] }), createPlayer('p2'));
+    const result = new DiscardEffect(1).execute(createContext(state, { choices: new ChoiceQueue([['strike']]) }));
+    const p1 = result.newState.players['p1'];
+
+    expect(result.success).to.be.true;
+    expect(ids(result.value!)).to.deep.equal(['strike']);
+    expect(ids(p1.hand)).to.deep.equal(['strike', 'b']);
+    expect(ids(p1.discardPile)).to.deep.equal(['strike']);
+  });
+
+  it('should create copies with ids of their own', () => {
+    const wound = card('wound');
+    const result = new CreateCardEffect(wound, 'discard', 2, 'bottom').execute(context());
+    const p1 = result.newState.players['p1'];
+
+    expect(ids(p1.discardPile)).to.deep.equal(['wound+2', 'wound+1', 'e', 'f', 'g']);
+    expect(result.events).to.deep.equal([
+      { type: 'cardCreated', playerId: 'p1', cardId: 'wound+1', zone: 'discard' },
+      { type: 'cardCreated', playerId: 'p1', cardId: 'wound+2', zone: 'discard' }
+    ]);
+    expect(ids(new CreateCardEffect(wound).execute({ ...context(), gameState: result.newState }).value!)).to.deep.equal(['wound+3']);
+  });
+
+  it('should load zone effects, including custom zones', () => {
+    const registry = EffectRegistry.withBuiltins();
+    const definition = {
+      type: 'createCard',
+      card: { id: 'shiv', name: 'Shiv', cost: 0, effects: [{ type: 'damage', amount: 4, target: 'opponent' }], tags: ['token'] },
+      zone: 'graveyard',
+      count: 1,
+      position: 'top',
+      target: 'self'
+    };
+    const effect = registry.create(definition);
+
+    expect(registry.serialize(effect)).to.deep.equal(definition);
+    expect(ids(zoneCards(effect.execute(context()).newState.players['p1'], 'graveyard'))).to.deep.equal(['shiv+1']);
+    expect(() => registry.create({ type: 'moveCard', from: 'deck' })).to.throw(/to: Required/);
+  });
+});
@@ -0,0 +1,252 @@
+import { z } from 'zod';
+import { isDraft, original, produceWithPatches } from 'immer';
+import { Card, EffectResult, GameContext, PlayerState } from './Effect';
+import { GameEvent } from './Events';
+import { awaitChoice, checkAnswer, nextAnswer } from './Choice';
+import { shuffleWith } from './Random';
+
+/**
+ * Where a card is. 'deck', 'hand' and 'discard' are the matching `PlayerState` fields;
+ * every other zone, including custom ones, is kept in `PlayerState.zones`.
+ */
+export type Zone = 'deck' | 'hand' | 'discard' | 'exhaust' | 'inPlay' | (string & {});
+
+export const ZoneSchema: z.ZodType<Zone> = z.string().min(1);
+
+/** Where cards go in the zone they are moved to. Cards are drawn from the top, the end of the array. */
+export type CardPosition = 'top' | 'bottom' | 'random';
+
+/** How the moved cards are picked: by their owner, at random, from either end, or all of them. */
+export type CardSelection = 'choice' | 'random' | 'top' | 'bottom' | 'all';
+
+const fields = { deck: 'deck', hand: 'hand', discard: 'discardPile' } as const;
+
+const isField = (zone: Zone): zone is keyof typeof fields => zone in fields;
+
+export function zoneCards(player: PlayerState, zone: Zone): readonly Card[] {
+  return isField(zone) ? player[fields[zone]] : player.zones?.[zone] ?? [];
+}
+
+/**
+ * Replaces the cards of a zone on an immer draft of a player.
+ */
+export function setZoneCards(draft: any, zone: Zone, cards: Card[]): void {
+  if (isField(zone)) {
+    draft[fields[zone]] = cards;
+  } else {
+    draft.zones ??= {};
+    draft.zones[zone] = cards;
+  }
+}
+
+export function describeZone(zone: Zone): string {
+  switch (zone) {
+    case 'discard': return 'discard pile';
+    case 'exhaust': return 'exhaust pile';
+    case 'inPlay': return 'play area';
+    default: return zone;
+  }
+}
+
+/** Random source for shuffles: the generator's 'shuffle' stream when there is one. */
+export function shuffleRandom(context: GameContext): () => number {
+  const stream = context.rng?.stream('shuffle');
+  return stream ? () => stream.next() : context.random;
+}
+
+export function insertCards(cards: readonly Card[], added: readonly Card[], position: CardPosition, random: () => number): Card[] {
+  switch (position) {
+    case 'top':
+      return [...cards, ...added];
+    case 'bottom':
+      return [...added, ...cards];
+    case 'random':
+      return added.reduce((result, card) => {
+        const index = Math.floor(random() * (result.length + 1));
+        return [...result.slice(0, index), card, ...result.slice(index)];
+      }, [...cards]);
+  }
+}
+
+const baseCard = (card: Card): Card => (isDraft(card) ? original(card)! : card);
+
+/**
+ * Takes one card out for each of `removed`: the same object when the zone still holds
+ * it, otherwise the first card with its id. Other copies sharing the id stay.
+ */
+function withoutCards(cards: readonly Card[], removed: readonly Card[]): Card[] {
+  const remaining = [...cards];
+  for (const card of removed.map(baseCard)) {
+    const same = remaining.findIndex(c => baseCard(c) === card);
+    const index = same >= 0 ? same : remaining.findIndex(c => c.id === card.id);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Moves cards between two zones of a player on an immer draft and returns a
+ * `cardMoved` event for each of them.
+ */
+export function moveCards(
+  draft: any,
+  playerId: string,
+  cards: readonly Card[],
+  from: Zone,
+  to: Zone,
+  position: CardPosition,
+  random: () => number
+): GameEvent[] {
+  const player = draft.players[playerId];
+  setZoneCards(player, from, withoutCards(zoneCards(player, from), cards));
+  setZoneCards(player, to, insertCards(zoneCards(player, to), cards, position, random));
+  return cards.map(card => ({ type: 'cardMoved', playerId, cardId: card.id, from, to }));
+}
+
+export type CardPicks =
+  | { readonly picks: Readonly<Record<string, Card[]>> }
+  /** The owner still has to choose, or answered with cards that cannot be picked. */
+  | { readonly result: EffectResult<never> };
+
+/**
+ * Picks up to `count` cards from a zone of each target. Choices are taken from the
+ * context in target order, see `nextAnswer`.
+ */
+export function pickCards(
+  context: GameContext,
+  targetIds: readonly string[],
+  zone: Zone,
+  count: number,
+  selection: CardSelection,
+  prompt: (amount: number) => string
+): CardPicks {
+  const picks: Record<string, Card[]> = {};
+  for (const id of targetIds) {
+    const cards = zoneCards(context.gameState.players[id], zone);
+    const amount = selection === 'all' ? cards.length : Math.min(Math.max(0, count), cards.length);
+
+    switch (selection) {
+      case 'all':
+        picks[id] = [...cards];
+        break;
+      case 'top':
+        picks[id] = cards.slice(cards.length - amount).reverse();
+        break;
+      case 'bottom':
+        picks[id] = cards.slice(0, amount);
+        break;
+      case 'random':
+        picks[id] = shuffleWith(cards, context.random).slice(0, amount);
+        break;
+      case 'choice': {
+        if (amount === 0) {
+          picks[id] = [];
+          break;
+        }
+        const choice = {
+          playerId: id,
+          kind: 'card' as const,
+          prompt: prompt(amount),
+          options: cards.map(card => ({ id: card.id, label: card.name })),
+          min: amount,
+          max: amount
+        };
+        const answer = nextAnswer(context);
+        if (!answer) {
+          return { result: awaitChoice(choice, context) };
+        }
+        const problem = checkAnswer(choice, answer);
+        if (problem) {
+          return { result: { success: false, newState: context.gameState, messages: [problem] } };
+        }
+        // One card per answered id, so copies that share an id are not all picked.
+        const chosen = new Set(answer.map(answered => cards.find(card => card.id === answered)));
+        picks[id] = cards.filter(card => chosen.has(card));
+        break;
+      }
+    }
+  }
+  return { picks };
+}
+
+export interface CardMove {
+  readonly from: Zone;
+  readonly to: Zone;
+  readonly count: number;
+  readonly selection: CardSelection;
+  readonly position: CardPosition;
+  /** Used in prompts and messages, e.g. 'discard'. */
+  readonly verb: string;
+}
+
+/**
+ * Picks cards from a zone of each target and moves them. The value is the cards moved.
+ */
+export function resolveMove(context: GameContext, targetIds: readonly string[], move: CardMove): EffectResult<Card[]> {
+  const verb = move.verb.charAt(0).toUpperCase() + move.verb.slice(1);
+  const selected = pickCards(context, targetIds, move.from, move.count, move.selection,
+    amount => `${verb} ${amount} card${amount > 1 ? 's' : ''}`);
+  if ('result' in selected) {
+    return selected.result;
+  }
+
+  const messages: string[] = [];
+  const value: Card[] = [];
+  const events: GameEvent[] = [];
+  const [newState, patches, inversePatches] = produceWithPatches(context.gameState, (draft: any) => {
+    for (const [id, cards] of Object.entries(selected.picks)) {
+      if (cards.length === 0) {
+        continue;
+      }
+      events.push(...moveCards(draft, id, cards, move.from, move.to, move.position, shuffleRandom(context)));
+      value.push(...cards);
+      messages.push(`${id} ${move.verb}s ${cards.map(card => card.name).join(', ')}`);
+    }
+  });
+
+  return {
+    success: true,
+    newState,
+    value,
+    patches,
+    inversePatches,
+    messages,
+    events
+  };
+}
+
+/**
+ * Description of the cards a move picks, e.g. '2 cards of choice'.
+ */
+export function describeSelection(count: string, selection: CardSelection, plural: boolean): string {
+  if (selection === 'all') {
+    return 'all cards';
+  }
+  const cards = `${count} card${plural ? 's' : ''}`;
+  switch (selection) {
+    case 'choice': return `${cards} of choice`;
+    case 'random': return `${cards} at random`;
+    case 'top': return `the top ${cards}`;
+    case 'bottom': return `the bottom ${cards}`;
+  }
+}
+
+/**
+ * Id for a new card that no card in the game has yet: the base id plus a counter.
+ */
+export function nextCardId(state: { readonly players: Readonly<Record<string, PlayerState>> }, base: string): string {
+  const taken = new Set<string>();
+  for (const player of Object.values(state.players)) {
+    for (const zone of ['deck', 'hand', 'discard', ...Object.keys(player.zones ?? {})]) {
+      zoneCards(player, zone).forEach(card => taken.add(card.id));
+    }
+  }
+
+  let counter = 1;
+  while (taken.has(`${base}+${counter}`)) {
+    counter++;
+  }
+  return `${base}+${counter}`;
+}
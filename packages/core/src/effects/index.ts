@@ -7,12 +7,27 @@ export {
   ContextualEffect, 
   SequentialEffect, 
   ParallelEffect,
+  DynamicEffect,
+  MappedEffect,
+  CaptureEffect,
+  SucceedEffect,
+  FailEffect,
+  GenEffect,
+  missingServices,
+  useService,
+  isCardInstance,
   type GameContext,
   type GameState,
   type PlayerState,
   type Card,
+  type CardInstance,
+  type CardModification,
+  type CardCost,
+  type CostModifier,
   type GamePhase,
-  type EffectResult
+  type EffectResult,
+  type EffectFailure,
+  type FailurePolicy
 } from './Effect';
 
 export { 
@@ -22,7 +37,18 @@ export {
   MemoryStorage, 
   SimpleEventBus,
   defaultContext,
+  serviceTag,
+  LoggerTag,
+  RandomTag,
+  StorageTag,
+  EventBusTag,
+  EffectRegistryTag,
+  StatusRegistryTag,
+  KeywordRegistryTag,
+  ResourceRegistryTag,
   type Service,
+  type ServiceTag,
+  type Lifetime,
   type Provider,
   type Logger,
   type RandomGenerator,
@@ -30,4 +56,141 @@ export {
   type EventBus
 } from './Context';
 
+export { shuffleWith, type RandomState } from './Random';
+
+export {
+  EffectRegistry,
+  builtinEffects,
+  type EffectDefinition,
+  type EffectTypeEntry,
+  type EffectTypeInfo
+} from './EffectRegistry';
+
+export {
+  ConditionDefinitionSchema,
+  compileCondition,
+  conditionSource,
+  type ConditionDefinition
+} from './Condition';
+
+export {
+  ChoiceQueue,
+  nextAnswer,
+  awaitChoice,
+  checkAnswer,
+  type ChoiceAnswer,
+  type ChoiceOption,
+  type PendingChoice
+} from './Choice';
+
+export {
+  ZoneSchema,
+  zoneCards,
+  setZoneCards,
+  describeZone,
+  describeSelection,
+  shuffleRandom,
+  insertCards,
+  moveCards,
+  pickCards,
+  resolveMove,
+  nextCardId,
+  type Zone,
+  type CardPosition,
+  type CardSelection,
+  type CardMove,
+  type CardPicks
+} from './Zone';
+
+export {
+  Value,
+  ValueSchema,
+  valueSchema,
+  readStat,
+  resolveValue,
+  describeValue,
+  type ValueSpec,
+  type PlayerStat
+} from './Value';
+
+export {
+  Target,
+  TargetSchema,
+  toTarget,
+  areAllies,
+  resolveTargets,
+  describeTarget,
+  noValidTarget,
+  serializeTarget,
+  type TargetSpec,
+  type TargetKeyword,
+  type TargetGroup
+} from './Target';
+
+export {
+  StatusRegistry,
+  builtinStatuses,
+  statusRegistryOf,
+  tickStatuses,
+  type StatusDefinition,
+  type StatusInstance
+} from './Status';
+
+export {
+  KeywordRegistry,
+  builtinKeywords,
+  type KeywordDefinition
+} from './Keyword';
+
+export {
+  ResourceRegistry,
+  builtinResources,
+  resourceRegistryOf,
+  refillResources,
+  expireResources,
+  type ResourceDefinition,
+  type ResourceView
+} from './Resource';
+
+export {
+  listScheduled,
+  nextScheduleId,
+  describeTiming,
+  describeScheduled,
+  bindingsOf,
+  type ScheduleBindings,
+  type ScheduledEffect
+} from './Schedule';
+
+export {
+  resolveDamage,
+  formatDamage,
+  type DamageReport,
+  type DamageStage,
+  type DamageModifier
+} from './Damage';
+
+export {
+  eventPlayer,
+  ownEvents,
+  type GameEvent,
+  type GameEventType,
+  type Trigger,
+  type TriggerDefinition
+} from './Events';
+
+export {
+  diffState,
+  mergeBranches,
+  gameStateLimits,
+  patchesOf,
+  joinPatches,
+  type MergeConflict,
+  type MergeLimit,
+  type MergeResult,
+  type StatePatches,
+  type StateChange,
+  type StatePath
+} from './Merge';
+
 export * from './primitives';
\ No newline at end of file
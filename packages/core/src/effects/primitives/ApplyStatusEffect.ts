@@ -0,0 +1,72 @@
+import { produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult } from '../Effect';
+import { GameEvent } from '../Events';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { statusRegistryOf } from '../Status';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+
+export class ApplyStatusEffect extends Effect {
+  readonly type = 'applyStatus';
+  readonly description: string;
+
+  constructor(
+    readonly statusId: string,
+    readonly stacks: ValueSpec,
+    readonly target: TargetSpec = 'opponent',
+    readonly duration?: number
+  ) {
+    super();
+    const turns = duration === undefined ? '' : ` for ${duration} turn${duration > 1 ? 's' : ''}`;
+    this.description = `Apply ${describeValue(stacks)} ${statusId} to ${describeTarget(target)}${turns}`;
+  }
+
+  execute(context: GameContext): EffectResult {
+    const { gameState } = context;
+    const registry = statusRegistryOf(context);
+    if (!registry.has(this.statusId)) {
+      return {
+        success: false,
+        newState: gameState,
+        messages: [`Unknown status: ${this.statusId}`]
+      };
+    }
+
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    const stacks = resolveValue(this.stacks, context);
+    if (stacks <= 0) {
+      return { success: true, newState: gameState, messages: [`No ${this.statusId} to apply`], patches: [], inversePatches: [] };
+    }
+
+    const messages: string[] = [];
+    const events: GameEvent[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const id of targetIds) {
+        const player = draft.players[id];
+        player.statuses ??= {};
+        const existing = player.statuses[this.statusId];
+        const duration = this.duration === undefined ? existing?.duration :
+          Math.max(this.duration, existing?.duration ?? 0);
+
+        player.statuses[this.statusId] = {
+          stacks: (existing?.stacks ?? 0) + stacks,
+          ...(duration === undefined ? {} : { duration })
+        };
+        messages.push(`${id} gains ${stacks} ${registry.get(this.statusId).name}`);
+        events.push({ type: 'statusApplied', playerId: id, status: this.statusId, stacks });
+      }
+    });
+
+    return {
+      success: true,
+      newState,
+      patches,
+      inversePatches,
+      messages,
+      events
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult } from '../Effect';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+
+/**
+ * Cancels the scheduled effects with a key that the targets own. The value is the
+ * number cancelled.
+ */
+export class CancelScheduledEffect extends Effect<number> {
+  readonly type = 'cancelScheduled';
+  readonly description: string;
+
+  constructor(
+    readonly key: string,
+    /** Owners of the scheduled effects to cancel. */
+    readonly target: TargetSpec = 'self'
+  ) {
+    super();
+    this.description = `Cancel ${key} scheduled by ${describeTarget(target)}`;
+  }
+
+  execute(context: GameContext): EffectResult<number> {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    const cancelled = (gameState.scheduled ?? [])
+      .filter(entry => entry.key === this.key && targetIds.includes(entry.owner));
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      if (cancelled.length > 0) {
+        draft.scheduled = draft.scheduled.filter((entry: any) => !cancelled.some(c => c.id === entry.id));
+      }
+    });
+
+    return {
+      success: true,
+      newState,
+      value: cancelled.length,
+      patches,
+      inversePatches,
+      messages: cancelled.map(entry => `${entry.owner}'s ${entry.description} is cancelled`)
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { Effect, GameContext, EffectResult } from '../Effect';
+import { awaitChoice, checkAnswer, nextAnswer } from '../Choice';
+import { TargetGroup, resolveTargets } from '../Target';
+
+/**
+ * Asks the acting player to pick a living player from a group, then resolves the
+ * effect with the pick as `GameContext.targetId`, so its 'chosen' targets refer to it.
+ */
+export class ChooseTargetEffect<A = unknown> extends Effect<A> {
+  readonly type = 'chooseTarget';
+  readonly description: string;
+
+  constructor(
+    readonly effect: Effect<A>,
+    readonly among: TargetGroup = 'enemies'
+  ) {
+    super();
+    this.description = `Choose one of ${among}: ${effect.description}`;
+  }
+
+  override requiredServices(): string[] {
+    return this.effect.requiredServices();
+  }
+
+  execute(context: GameContext): EffectResult<A> {
+    const { gameState, playerId } = context;
+    const candidates = resolveTargets(this.among, context).filter(id => gameState.players[id].health > 0);
+    if (candidates.length === 0) {
+      return { success: false, newState: gameState, messages: [`No ${this.among} to choose from`] };
+    }
+
+    const choice = {
+      playerId,
+      kind: 'player' as const,
+      prompt: `Choose a target: ${this.effect.description}`,
+      options: candidates.map(id => ({ id, label: id })),
+      min: 1,
+      max: 1
+    };
+    const answer = nextAnswer(context);
+    if (!answer) {
+      return awaitChoice(choice, context);
+    }
+    const problem = checkAnswer(choice, answer);
+    if (problem) {
+      return { success: false, newState: gameState, messages: [problem] };
+    }
+
+    return this.effect.execute({ ...context, targetId: answer[0] });
+  }
+}
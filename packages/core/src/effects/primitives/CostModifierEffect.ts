@@ -0,0 +1,66 @@
+import { produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult } from '../Effect';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { Value, ValueSpec, describeValue, resolveValue } from '../Value';
+
+function describeChange(amount: ValueSpec): string {
+  if (typeof amount === 'number') {
+    return amount < 0 ? `${-amount} less` : `${amount} more`;
+  }
+  if (amount.kind === 'subtract' && amount.left === 0) {
+    return `${describeValue(amount.right)} less`;
+  }
+  return `${describeValue(amount)} more`;
+}
+
+export class CostModifierEffect extends Effect {
+  readonly type = 'costModifier';
+  readonly description: string;
+  private readonly scope: string;
+
+  constructor(
+    readonly resourceType: string,
+    readonly amount: ValueSpec,
+    readonly uses?: number,
+    readonly target: TargetSpec = 'self'
+  ) {
+    super();
+    this.scope = uses === undefined ? 'cards' : `next ${uses === 1 ? 'card' : `${uses} cards`}`;
+    this.description = `${this.scope} cost ${describeChange(amount)} ${resourceType} (${describeTarget(target)})`;
+  }
+
+  execute(context: GameContext): EffectResult {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    const amount = resolveValue(this.amount, context);
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const targetId of targetIds) {
+        const draftPlayer = draft.players[targetId];
+        draftPlayer.costModifiers = [
+          ...(draftPlayer.costModifiers ?? []),
+          { resource: this.resourceType, amount, uses: this.uses }
+        ];
+      }
+    });
+
+    return {
+      success: true,
+      newState,
+      patches,
+      inversePatches,
+      messages: targetIds.map(id => `${id}'s ${this.scope} cost ${describeChange(amount)} ${this.resourceType}`)
+    };
+  }
+
+  static discount(resourceType: string, amount: ValueSpec, uses?: number): CostModifierEffect {
+    return new CostModifierEffect(resourceType, typeof amount === 'number' ? -amount : Value.subtract(0, amount), uses);
+  }
+
+  static surcharge(resourceType: string, amount: ValueSpec, uses?: number, target?: TargetSpec): CostModifierEffect {
+    return new CostModifierEffect(resourceType, amount, uses, target);
+  }
+}
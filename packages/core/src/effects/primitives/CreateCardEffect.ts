@@ -0,0 +1,67 @@
+import { produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult, Card } from '../Effect';
+import { GameEvent } from '../Events';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+import { CardPosition, Zone, describeZone, insertCards, nextCardId, setZoneCards, shuffleRandom, zoneCards } from '../Zone';
+
+/**
+ * Adds new copies of a card, such as a token or a copy of another card, to a zone
+ * of each target. Every copy gets an id of its own. The value is the cards created.
+ */
+export class CreateCardEffect extends Effect<Card[]> {
+  readonly type = 'createCard';
+  readonly description: string;
+
+  constructor(
+    readonly card: Card,
+    readonly zone: Zone = 'hand',
+    readonly count: ValueSpec = 1,
+    readonly position: CardPosition = 'top',
+    readonly target: TargetSpec = 'self'
+  ) {
+    super();
+    const copies = count === 1 ? card.name : `${describeValue(count)} copies of ${card.name}`;
+    this.description = `Create ${copies} in ${describeZone(zone)} (${describeTarget(target)})`;
+  }
+
+  execute(context: GameContext): EffectResult<Card[]> {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    const count = Math.max(0, resolveValue(this.count, context));
+    const random = shuffleRandom(context);
+    const messages: string[] = [];
+    const value: Card[] = [];
+    const events: GameEvent[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const id of targetIds) {
+        const player = draft.players[id];
+        const created: Card[] = [];
+        for (let i = 0; i < count; i++) {
+          const card = { ...this.card, id: nextCardId(draft, this.card.id) };
+          setZoneCards(player, this.zone, insertCards(zoneCards(player, this.zone), [card], this.position, random));
+          created.push(card);
+          events.push({ type: 'cardCreated', playerId: id, cardId: card.id, zone: this.zone });
+        }
+        value.push(...created);
+        if (created.length > 0) {
+          messages.push(`${id} creates ${created.length} ${this.card.name} in ${describeZone(this.zone)}`);
+        }
+      }
+    });
+
+    return {
+      success: true,
+      newState,
+      value,
+      patches,
+      inversePatches,
+      messages,
+      events
+    };
+  }
+}
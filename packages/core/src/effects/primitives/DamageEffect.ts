@@ -1,68 +1,70 @@
-import { produce } from 'immer';
+import { produceWithPatches } from 'immer';
 import { Effect, GameContext, EffectResult } from '../Effect';
+import { GameEvent } from '../Events';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+import { DamageReport, resolveDamage } from '../Damage';
 
-export class DamageEffect extends Effect {
+/**
+ * The value is the total health lost by the targets.
+ */
+export class DamageEffect extends Effect<number> {
   readonly type = 'damage';
   readonly description: string;
 
   constructor(
-    private readonly amount: number,
-    private readonly target: 'self' | 'opponent' | 'all' = 'opponent'
+    readonly amount: ValueSpec,
+    readonly target: TargetSpec = 'opponent'
   ) {
     super();
-    this.description = `Deal ${amount} damage to ${target}`;
+    this.description = `Deal ${describeValue(amount)} damage to ${describeTarget(target)}`;
   }
 
-  execute(context: GameContext): EffectResult {
+  execute(context: GameContext): EffectResult<number> {
     const { gameState, playerId } = context;
-    const messages: string[] = [];
-    let success = true;
-    
-    const newState = produce(gameState, (draft: any) => {
-      switch (this.target) {
-        case 'self':
-          const selfPlayer = draft.players[playerId];
-          if (selfPlayer) {
-            const actualDamage = Math.min(this.amount, selfPlayer.health);
-            selfPlayer.health -= actualDamage;
-            messages.push(`${playerId} takes ${actualDamage} damage`);
-          } else {
-            success = false;
-            messages.push(`Player ${playerId} not found`);
-          }
-          break;
-
-        case 'opponent':
-          const opponentId = Object.keys(draft.players).find(id => id !== playerId);
-          if (opponentId) {
-            const opponent = draft.players[opponentId];
-            const actualDamage = Math.min(this.amount, opponent.health);
-            opponent.health -= actualDamage;
-            messages.push(`${opponentId} takes ${actualDamage} damage`);
-          } else {
-            success = false;
-            messages.push('No opponent found');
-          }
-          break;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
 
-        case 'all':
-          for (const [id, player] of Object.entries(draft.players) as [string, any][]) {
-            const actualDamage = Math.min(this.amount, player.health);
-            player.health -= actualDamage;
-            messages.push(`${id} takes ${actualDamage} damage`);
-          }
-          break;
+    const amount = Math.max(0, resolveValue(this.amount, context));
+    const messages: string[] = [];
+    let value = 0;
+    const reports: DamageReport[] = [];
+    const events: GameEvent[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const id of targetIds) {
+        const report = resolveDamage(amount, playerId, id, { ...context, gameState: draft });
+        const player = draft.players[id];
+        if (report.blocked > 0) {
+          player.block -= report.blocked;
+        }
+        player.health -= report.healthLost;
+        value += report.healthLost;
+        reports.push(report);
+        events.push({ type: 'damageDealt', source: playerId, target: id, amount: report.healthLost, blocked: report.blocked });
+        if (report.healthLost > 0 && player.health === 0) {
+          events.push({ type: 'healthZero', playerId: id });
+        }
+        messages.push(report.blocked > 0 ?
+          `${id} takes ${report.healthLost} damage (${report.blocked} blocked)` :
+          `${id} takes ${report.healthLost} damage`);
       }
     });
 
     return {
-      success,
+      success: true,
       newState,
-      messages
+      value,
+      patches,
+      inversePatches,
+      messages,
+      metadata: { damage: reports },
+      events
     };
   }
 
-  static create(amount: number, target?: 'self' | 'opponent' | 'all'): DamageEffect {
+  static create(amount: ValueSpec, target?: TargetSpec): DamageEffect {
     return new DamageEffect(amount, target);
   }
-}
\ No newline at end of file
+}
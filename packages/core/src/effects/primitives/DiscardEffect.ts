@@ -0,0 +1,39 @@
+import { Effect, GameContext, EffectResult, Card } from '../Effect';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+import { CardSelection, describeSelection, resolveMove } from '../Zone';
+
+/**
+ * Moves cards from the targets' hands to their discard piles. By default each target
+ * picks the cards. The value is the cards discarded.
+ */
+export class DiscardEffect extends Effect<Card[]> {
+  readonly type = 'discard';
+  readonly description: string;
+
+  constructor(
+    readonly count: ValueSpec = 1,
+    readonly target: TargetSpec = 'self',
+    readonly selection: CardSelection = 'choice'
+  ) {
+    super();
+    const cards = describeSelection(describeValue(count), selection, typeof count !== 'number' || count > 1);
+    this.description = `Discard ${cards} (${describeTarget(target)})`;
+  }
+
+  execute(context: GameContext): EffectResult<Card[]> {
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    return resolveMove(context, targetIds, {
+      from: 'hand',
+      to: 'discard',
+      count: resolveValue(this.count, context),
+      selection: this.selection,
+      position: 'top',
+      verb: 'discard'
+    });
+  }
+}
@@ -1,79 +1,85 @@
-import { produce } from 'immer';
-import { Effect, GameContext, EffectResult } from '../Effect';
+import { isDraft, original, produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult, Card } from '../Effect';
+import { GameEvent } from '../Events';
+import { shuffleWith } from '../Random';
+import { shuffleRandom } from '../Zone';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
 
-export class DrawCardEffect extends Effect {
+/**
+ * The value is the cards drawn, in order.
+ */
+export class DrawCardEffect extends Effect<Card[]> {
   readonly type = 'draw';
   readonly description: string;
 
   constructor(
-    private readonly count: number = 1,
-    private readonly target: 'self' | 'opponent' = 'self'
+    readonly count: ValueSpec = 1,
+    readonly target: TargetSpec = 'self'
   ) {
     super();
-    this.description = `Draw ${count} card${count > 1 ? 's' : ''} (${target})`;
+    const plural = typeof count !== 'number' || count > 1;
+    this.description = `Draw ${describeValue(count)} card${plural ? 's' : ''} (${describeTarget(target)})`;
   }
 
-  execute(context: GameContext): EffectResult {
-    const { gameState, playerId } = context;
-    const messages: string[] = [];
-    let success = true;
+  execute(context: GameContext): EffectResult<Card[]> {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
 
-    const targetId = this.target === 'self' ? playerId : 
-      Object.keys(gameState.players).find(id => id !== playerId);
+    const count = Math.max(0, resolveValue(this.count, context));
+    const messages: string[] = [];
+    const value: Card[] = [];
+    const events: GameEvent[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const targetId of targetIds) {
+        const draftPlayer = draft.players[targetId];
+        let cardsDrawn = 0;
+        for (let i = 0; i < count; i++) {
+          if (draftPlayer.deck.length === 0) {
+            if (draftPlayer.discardPile.length === 0) {
+              messages.push(`${targetId} cannot draw - no cards available`);
+              break;
+            }
 
-    if (!targetId) {
-      return {
-        success: false,
-        newState: gameState,
-        messages: [`No ${this.target} player found`]
-      };
-    }
+            for (const card of draftPlayer.discardPile) {
+              events.push({ type: 'cardMoved', playerId: targetId, cardId: card.id, from: 'discard', to: 'deck' });
+            }
+            draftPlayer.deck = shuffleWith(draftPlayer.discardPile, shuffleRandom(context));
+            draftPlayer.discardPile = [];
+            messages.push(`${targetId} shuffles discard pile into deck`);
+          }
 
-    const player = gameState.players[targetId];
-    if (!player) {
-      return {
-        success: false,
-        newState: gameState,
-        messages: [`Player ${targetId} not found`]
-      };
-    }
-    
-    const newState = produce(gameState, (draft: any) => {
-      const draftPlayer = draft.players[targetId];
-      let cardsDrawn = 0;
-      for (let i = 0; i < this.count; i++) {
-        if (draftPlayer.deck.length === 0) {
-          if (draftPlayer.discardPile.length === 0) {
-            messages.push(`${targetId} cannot draw - no cards available`);
-            break;
+          if (draftPlayer.deck.length > 0) {
+            const card = draftPlayer.deck.pop()!;
+            draftPlayer.hand.push(card);
+            value.push(isDraft(card) ? original(card) : card);
+            events.push({ type: 'cardMoved', playerId: targetId, cardId: card.id, from: 'deck', to: 'hand' });
+            events.push({ type: 'cardDrawn', playerId: targetId, cardId: card.id });
+            cardsDrawn++;
           }
-          
-          draftPlayer.deck = [...draftPlayer.discardPile];
-          draftPlayer.discardPile = [];
-          messages.push(`${targetId} shuffles discard pile into deck`);
         }
 
-        if (draftPlayer.deck.length > 0) {
-          const card = draftPlayer.deck.pop()!;
-          draftPlayer.hand.push(card);
-          cardsDrawn++;
+        if (cardsDrawn > 0) {
+          messages.push(`${targetId} draws ${cardsDrawn} card${cardsDrawn > 1 ? 's' : ''}`);
         }
       }
-
-      if (cardsDrawn > 0) {
-        messages.push(`${targetId} draws ${cardsDrawn} card${cardsDrawn > 1 ? 's' : ''}`);
-      }
-
     });
 
     return {
-      success,
+      success: true,
       newState,
-      messages
+      value,
+      patches,
+      inversePatches,
+      messages,
+      events
     };
   }
 
-  static create(count?: number, target?: 'self' | 'opponent'): DrawCardEffect {
+  static create(count?: ValueSpec, target?: TargetSpec): DrawCardEffect {
     return new DrawCardEffect(count, target);
   }
-}
\ No newline at end of file
+}
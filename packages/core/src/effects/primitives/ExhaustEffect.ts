@@ -0,0 +1,39 @@
+import { Effect, GameContext, EffectResult, Card } from '../Effect';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+import { CardSelection, Zone, describeSelection, describeZone, resolveMove } from '../Zone';
+
+/**
+ * Moves cards to the targets' exhaust piles, out of the deck cycle. The value is the cards exhausted.
+ */
+export class ExhaustEffect extends Effect<Card[]> {
+  readonly type = 'exhaust';
+  readonly description: string;
+
+  constructor(
+    readonly count: ValueSpec = 1,
+    readonly target: TargetSpec = 'self',
+    readonly selection: CardSelection = 'choice',
+    readonly from: Zone = 'hand'
+  ) {
+    super();
+    const cards = describeSelection(describeValue(count), selection, typeof count !== 'number' || count > 1);
+    this.description = `Exhaust ${cards} from ${describeZone(from)} (${describeTarget(target)})`;
+  }
+
+  execute(context: GameContext): EffectResult<Card[]> {
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    return resolveMove(context, targetIds, {
+      from: this.from,
+      to: 'exhaust',
+      count: resolveValue(this.count, context),
+      selection: this.selection,
+      position: 'top',
+      verb: 'exhaust'
+    });
+  }
+}
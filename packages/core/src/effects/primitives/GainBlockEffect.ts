@@ -0,0 +1,57 @@
+import { produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult } from '../Effect';
+import { GameEvent } from '../Events';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+
+/**
+ * The value is the total block gained.
+ */
+export class GainBlockEffect extends Effect<number> {
+  readonly type = 'gainBlock';
+  readonly description: string;
+
+  constructor(
+    readonly amount: ValueSpec,
+    readonly target: TargetSpec = 'self'
+  ) {
+    super();
+    this.description = `Gain ${describeValue(amount)} block (${describeTarget(target)})`;
+  }
+
+  execute(context: GameContext): EffectResult<number> {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    const amount = Math.max(0, resolveValue(this.amount, context));
+    const messages: string[] = [];
+    let value = 0;
+    const events: GameEvent[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const id of targetIds) {
+        const player = draft.players[id];
+        player.block = (player.block ?? 0) + amount;
+        value += amount;
+        messages.push(`${id} gains ${amount} block`);
+        events.push({ type: 'blockGained', playerId: id, amount });
+      }
+    });
+
+    return {
+      success: true,
+      newState,
+      value,
+      patches,
+      inversePatches,
+      messages,
+      events
+    };
+  }
+
+  static create(amount: ValueSpec, target?: TargetSpec): GainBlockEffect {
+    return new GainBlockEffect(amount, target);
+  }
+}
@@ -1,69 +1,58 @@
-import { produce } from 'immer';
+import { produceWithPatches } from 'immer';
 import { Effect, GameContext, EffectResult } from '../Effect';
-
-export class HealEffect extends Effect {
+import { GameEvent } from '../Events';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+
+/**
+ * The value is the total health restored.
+ */
+export class HealEffect extends Effect<number> {
   readonly type = 'heal';
   readonly description: string;
 
   constructor(
-    private readonly amount: number,
-    private readonly target: 'self' | 'ally' | 'all' = 'self'
+    readonly amount: ValueSpec,
+    readonly target: TargetSpec = 'self'
   ) {
     super();
-    this.description = `Heal ${amount} to ${target}`;
+    this.description = `Heal ${describeValue(amount)} to ${describeTarget(target)}`;
   }
 
-  execute(context: GameContext): EffectResult {
-    const { gameState, playerId } = context;
-    const messages: string[] = [];
-    let success = true;
-    
-    const newState = produce(gameState, (draft: any) => {
-      switch (this.target) {
-        case 'self':
-          const selfPlayer = draft.players[playerId];
-          if (selfPlayer) {
-            const actualHeal = Math.min(this.amount, selfPlayer.maxHealth - selfPlayer.health);
-            selfPlayer.health += actualHeal;
-            messages.push(`${playerId} heals ${actualHeal} health`);
-          } else {
-            success = false;
-            messages.push(`Player ${playerId} not found`);
-          }
-          break;
-
-        case 'ally':
-          const allyId = Object.keys(draft.players).find(id => id !== playerId);
-          if (allyId) {
-            const ally = draft.players[allyId];
-            const actualHeal = Math.min(this.amount, ally.maxHealth - ally.health);
-            ally.health += actualHeal;
-            messages.push(`${allyId} heals ${actualHeal} health`);
-          } else {
-            success = false;
-            messages.push('No ally found');
-          }
-          break;
+  execute(context: GameContext): EffectResult<number> {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
 
-        case 'all':
-          for (const [id, player] of Object.entries(draft.players) as [string, any][]) {
-            const actualHeal = Math.min(this.amount, player.maxHealth - player.health);
-            player.health += actualHeal;
-            messages.push(`${id} heals ${actualHeal} health`);
-          }
-          break;
+    const amount = Math.max(0, resolveValue(this.amount, context));
+    const messages: string[] = [];
+    let value = 0;
+    const events: GameEvent[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const id of targetIds) {
+        const player = draft.players[id];
+        const actualHeal = Math.min(amount, player.maxHealth - player.health);
+        player.health += actualHeal;
+        value += actualHeal;
+        messages.push(`${id} heals ${actualHeal} health`);
+        events.push({ type: 'healed', playerId: id, amount: actualHeal });
       }
-
     });
 
     return {
-      success,
+      success: true,
       newState,
-      messages
+      value,
+      patches,
+      inversePatches,
+      messages,
+      events
     };
   }
 
-  static create(amount: number, target?: 'self' | 'ally' | 'all'): HealEffect {
+  static create(amount: ValueSpec, target?: TargetSpec): HealEffect {
     return new HealEffect(amount, target);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,57 @@
+import { produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult } from '../Effect';
+import { GameEvent } from '../Events';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+
+/**
+ * Removes health directly, ignoring every damage modifier.
+ * The value is the total health lost.
+ */
+export class LoseHealthEffect extends Effect<number> {
+  readonly type = 'loseHealth';
+  readonly description: string;
+
+  constructor(
+    readonly amount: ValueSpec,
+    readonly target: TargetSpec = 'self'
+  ) {
+    super();
+    this.description = `Lose ${describeValue(amount)} health (${describeTarget(target)})`;
+  }
+
+  execute(context: GameContext): EffectResult<number> {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    const amount = Math.max(0, resolveValue(this.amount, context));
+    const messages: string[] = [];
+    let value = 0;
+    const events: GameEvent[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const id of targetIds) {
+        const player = draft.players[id];
+        const actualLoss = Math.min(amount, player.health);
+        player.health -= actualLoss;
+        value += actualLoss;
+        messages.push(`${id} loses ${actualLoss} health`);
+        if (actualLoss > 0 && player.health === 0) {
+          events.push({ type: 'healthZero', playerId: id });
+        }
+      }
+    });
+
+    return {
+      success: true,
+      newState,
+      value,
+      patches,
+      inversePatches,
+      messages,
+      events
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { Effect, GameContext, EffectResult, Card } from '../Effect';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+import { CardPosition, CardSelection, Zone, describeSelection, describeZone, resolveMove } from '../Zone';
+
+/**
+ * Moves cards between two zones of each target, e.g. a card of choice from the
+ * discard pile to the top of the deck. The value is the cards moved.
+ */
+export class MoveCardEffect extends Effect<Card[]> {
+  readonly type = 'moveCard';
+  readonly description: string;
+
+  constructor(
+    readonly from: Zone,
+    readonly to: Zone,
+    readonly count: ValueSpec = 1,
+    readonly selection: CardSelection = 'choice',
+    readonly position: CardPosition = 'top',
+    readonly target: TargetSpec = 'self'
+  ) {
+    super();
+    const cards = describeSelection(describeValue(count), selection, typeof count !== 'number' || count > 1);
+    const where = position === 'random' ? `into ${describeZone(to)}` : `to the ${position} of ${describeZone(to)}`;
+    this.description = `Move ${cards} from ${describeZone(from)} ${where} (${describeTarget(target)})`;
+  }
+
+  execute(context: GameContext): EffectResult<Card[]> {
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    return resolveMove(context, targetIds, {
+      from: this.from,
+      to: this.to,
+      count: resolveValue(this.count, context),
+      selection: this.selection,
+      position: this.position,
+      verb: 'move'
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult } from '../Effect';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+
+export class RemoveStatusEffect extends Effect {
+  readonly type = 'removeStatus';
+  readonly description: string;
+
+  constructor(
+    readonly statusId: string,
+    /** Stacks to remove. Removes the status entirely if omitted. */
+    readonly stacks?: ValueSpec,
+    readonly target: TargetSpec = 'self'
+  ) {
+    super();
+    const amount = stacks === undefined ? 'all' : describeValue(stacks);
+    this.description = `Remove ${amount} ${statusId} from ${describeTarget(target)}`;
+  }
+
+  execute(context: GameContext): EffectResult {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    const stacks = this.stacks === undefined ? undefined : Math.max(0, resolveValue(this.stacks, context));
+    const messages: string[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const id of targetIds) {
+        const statuses = draft.players[id].statuses;
+        const existing = statuses?.[this.statusId];
+        if (!existing) {
+          continue;
+        }
+
+        const removed = Math.min(stacks ?? existing.stacks, existing.stacks);
+        existing.stacks -= removed;
+        if (existing.stacks <= 0) {
+          delete statuses[this.statusId];
+        }
+        messages.push(`${id} loses ${removed} ${this.statusId}`);
+      }
+    });
+
+    return {
+      success: true,
+      newState,
+      patches,
+      inversePatches,
+      messages
+    };
+  }
+}
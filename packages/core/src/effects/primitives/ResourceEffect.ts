@@ -1,90 +1,98 @@
-import { produce } from 'immer';
+import { produceWithPatches } from 'immer';
 import { Effect, GameContext, EffectResult } from '../Effect';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { ValueSpec, describeValue, resolveValue } from '../Value';
+import { resourceRegistryOf } from '../Resource';
 
-export class ResourceEffect extends Effect {
+/**
+ * The value is the total amount gained or spent, or the net change for 'set'. Amounts
+ * stay within the resource's declared limits, see `ResourceRegistry`.
+ */
+export class ResourceEffect extends Effect<number> {
   readonly type = 'resource';
   readonly description: string;
 
   constructor(
-    private readonly resourceType: string,
-    private readonly amount: number,
-    private readonly operation: 'gain' | 'spend' | 'set' = 'gain',
-    private readonly target: 'self' | 'opponent' = 'self'
+    readonly resourceType: string,
+    readonly amount: ValueSpec,
+    readonly operation: 'gain' | 'spend' | 'set' = 'gain',
+    readonly target: TargetSpec = 'self'
   ) {
     super();
-    this.description = `${operation} ${amount} ${resourceType} (${target})`;
+    this.description = `${operation} ${describeValue(amount)} ${resourceType} (${describeTarget(target)})`;
   }
 
-  execute(context: GameContext): EffectResult {
-    const { gameState, playerId } = context;
+  execute(context: GameContext): EffectResult<number> {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    const amount = resolveValue(this.amount, context);
+    const registry = resourceRegistryOf(context);
     const messages: string[] = [];
     let success = true;
+    let total = 0;
 
-    const targetId = this.target === 'self' ? playerId : 
-      Object.keys(gameState.players).find(id => id !== playerId);
-
-    if (!targetId) {
-      return {
-        success: false,
-        newState: gameState,
-        messages: [`No ${this.target} player found`]
-      };
-    }
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const targetId of targetIds) {
+        const draftPlayer = draft.players[targetId];
 
-    const player = gameState.players[targetId];
-    if (!player) {
-      return {
-        success: false,
-        newState: gameState,
-        messages: [`Player ${targetId} not found`]
-      };
-    }
-    
-    const newState = produce(gameState, (draft: any) => {
-      const draftPlayer = draft.players[targetId];
+        const currentAmount = draftPlayer.resources[this.resourceType] || 0;
 
-      const currentAmount = draftPlayer.resources[this.resourceType] || 0;
+        switch (this.operation) {
+          case 'gain': {
+            const gained = registry.clamp(this.resourceType, currentAmount + amount) - currentAmount;
+            draftPlayer.resources[this.resourceType] = currentAmount + gained;
+            total += gained;
+            messages.push(gained === amount ?
+              `${targetId} gains ${amount} ${this.resourceType}` :
+              `${targetId} gains ${gained} ${this.resourceType} (capped)`);
+            break;
+          }
 
-      switch (this.operation) {
-        case 'gain':
-          draftPlayer.resources[this.resourceType] = currentAmount + this.amount;
-          messages.push(`${targetId} gains ${this.amount} ${this.resourceType}`);
-          break;
+          case 'spend':
+            if (currentAmount < amount && !registry.allowsNegative(this.resourceType)) {
+              success = false;
+              messages.push(`${targetId} doesn't have enough ${this.resourceType} (${currentAmount}/${amount})`);
+            } else {
+              draftPlayer.resources[this.resourceType] = currentAmount - amount;
+              total += amount;
+              messages.push(`${targetId} spends ${amount} ${this.resourceType}`);
+            }
+            break;
 
-        case 'spend':
-          if (currentAmount < this.amount) {
-            success = false;
-            messages.push(`${targetId} doesn't have enough ${this.resourceType} (${currentAmount}/${this.amount})`);
-          } else {
-            draftPlayer.resources[this.resourceType] = currentAmount - this.amount;
-            messages.push(`${targetId} spends ${this.amount} ${this.resourceType}`);
+          case 'set': {
+            const value = registry.clamp(this.resourceType, amount);
+            draftPlayer.resources[this.resourceType] = value;
+            total += value - currentAmount;
+            messages.push(`${targetId} ${this.resourceType} set to ${value}`);
+            break;
           }
-          break;
-
-        case 'set':
-          draftPlayer.resources[this.resourceType] = this.amount;
-          messages.push(`${targetId} ${this.resourceType} set to ${this.amount}`);
-          break;
+        }
       }
-
     });
 
     return {
       success,
       newState,
+      value: success ? total : undefined,
+      patches,
+      inversePatches,
       messages
     };
   }
 
-  static gain(resourceType: string, amount: number, target?: 'self' | 'opponent'): ResourceEffect {
+  static gain(resourceType: string, amount: ValueSpec, target?: TargetSpec): ResourceEffect {
     return new ResourceEffect(resourceType, amount, 'gain', target);
   }
 
-  static spend(resourceType: string, amount: number, target?: 'self' | 'opponent'): ResourceEffect {
+  static spend(resourceType: string, amount: ValueSpec, target?: TargetSpec): ResourceEffect {
     return new ResourceEffect(resourceType, amount, 'spend', target);
   }
 
-  static set(resourceType: string, amount: number, target?: 'self' | 'opponent'): ResourceEffect {
+  static set(resourceType: string, amount: ValueSpec, target?: TargetSpec): ResourceEffect {
     return new ResourceEffect(resourceType, amount, 'set', target);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,83 @@
+import { produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult, GamePhase, useService } from '../Effect';
+import { EffectRegistryTag } from '../Context';
+import type { EffectDefinition } from '../EffectRegistry';
+import { bindingsOf, describeTiming, nextScheduleId } from '../Schedule';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+
+/**
+ * Schedules an effect for a phase of a later turn of each target, with the acting player
+ * as its owner. The effect is stored in the game state in its declarative form, so it
+ * has to be serializable; X, the picked target and captured values are stored with it.
+ * It resolves outside a card play, so it cannot ask for a choice.
+ * The value is the ids of the scheduled entries.
+ */
+export class ScheduleEffect extends Effect<string[]> {
+  readonly type = 'schedule';
+  readonly description: string;
+
+  constructor(
+    readonly effect: Effect,
+    readonly phase: GamePhase = 'draw',
+    /** Times the phase has to start before the effect resolves; 1 is the next time. */
+    readonly turns: number = 1,
+    /** Player whose phase it waits for. */
+    readonly player: TargetSpec = 'self',
+    readonly key?: string
+  ) {
+    super();
+    if (!Number.isInteger(turns) || turns < 1) {
+      throw new Error(`Scheduled effects need a whole number of turns of at least 1 (got ${turns})`);
+    }
+    this.description = `${effect.description}, ${describeTiming(phase, turns, describeTarget(player))}`;
+  }
+
+  override requiredServices(): string[] {
+    return [...new Set([EffectRegistryTag.id, ...this.effect.requiredServices()])];
+  }
+
+  execute(context: GameContext): EffectResult<string[]> {
+    const { gameState, playerId } = context;
+    const targetIds = resolveTargets(this.player, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.player, context);
+    }
+
+    let definition: EffectDefinition;
+    try {
+      definition = useService(context, EffectRegistryTag).serialize(this.effect);
+    } catch (error) {
+      return { success: false, newState: gameState, messages: [`Cannot schedule ${this.effect.description}: ${(error as Error).message}`] };
+    }
+
+    const bindings = bindingsOf(context);
+    const value: string[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      draft.scheduled ??= [];
+      for (const id of targetIds) {
+        const entryId = nextScheduleId(draft);
+        draft.scheduled.push({
+          id: entryId,
+          owner: playerId,
+          playerId: id,
+          phase: this.phase,
+          remaining: this.turns,
+          effect: definition,
+          description: this.effect.description,
+          ...(this.key !== undefined ? { key: this.key } : {}),
+          ...(bindings ? { bindings } : {})
+        });
+        value.push(entryId);
+      }
+    });
+
+    return {
+      success: true,
+      newState,
+      value,
+      patches,
+      inversePatches,
+      messages: targetIds.map(id => `${playerId} schedules ${this.effect.description}, ${describeTiming(this.phase, this.turns, id)}`)
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { produceWithPatches } from 'immer';
+import { Effect, GameContext, EffectResult, Card } from '../Effect';
+import { GameEvent } from '../Events';
+import { shuffleWith } from '../Random';
+import { TargetSpec, describeTarget, noValidTarget, resolveTargets } from '../Target';
+import { Zone, describeZone, moveCards, shuffleRandom, zoneCards } from '../Zone';
+
+/**
+ * Moves every card of a zone into the targets' decks and shuffles them. The value is the cards moved.
+ */
+export class ShuffleIntoDeckEffect extends Effect<Card[]> {
+  readonly type = 'shuffleIntoDeck';
+  readonly description: string;
+
+  constructor(
+    readonly from: Zone = 'discard',
+    readonly target: TargetSpec = 'self'
+  ) {
+    super();
+    this.description = `Shuffle ${describeZone(from)} into deck (${describeTarget(target)})`;
+  }
+
+  execute(context: GameContext): EffectResult<Card[]> {
+    const { gameState } = context;
+    const targetIds = resolveTargets(this.target, context);
+    if (targetIds.length === 0) {
+      return noValidTarget(this.target, context);
+    }
+
+    const random = shuffleRandom(context);
+    const messages: string[] = [];
+    const value: Card[] = [];
+    const events: GameEvent[] = [];
+    const [newState, patches, inversePatches] = produceWithPatches(gameState, (draft: any) => {
+      for (const id of targetIds) {
+        const cards = zoneCards(gameState.players[id], this.from);
+        events.push(...moveCards(draft, id, cards, this.from, 'deck', 'top', random));
+        draft.players[id].deck = shuffleWith(draft.players[id].deck, random);
+        value.push(...cards);
+        messages.push(`${id} shuffles ${cards.length} card${cards.length === 1 ? '' : 's'} from ${describeZone(this.from)} into deck`);
+      }
+    });
+
+    return {
+      success: true,
+      newState,
+      value,
+      patches,
+      inversePatches,
+      messages,
+      events
+    };
+  }
+}
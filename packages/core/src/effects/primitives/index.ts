@@ -1,4 +1,17 @@
 export { DamageEffect } from './DamageEffect';
 export { HealEffect } from './HealEffect';
 export { DrawCardEffect } from './DrawCardEffect';
-export { ResourceEffect } from './ResourceEffect';
\ No newline at end of file
+export { ResourceEffect } from './ResourceEffect';
+export { CostModifierEffect } from './CostModifierEffect';
+export { LoseHealthEffect } from './LoseHealthEffect';
+export { ApplyStatusEffect } from './ApplyStatusEffect';
+export { RemoveStatusEffect } from './RemoveStatusEffect';
+export { GainBlockEffect } from './GainBlockEffect';
+export { DiscardEffect } from './DiscardEffect';
+export { ChooseTargetEffect } from './ChooseTargetEffect';
+export { ExhaustEffect } from './ExhaustEffect';
+export { MoveCardEffect } from './MoveCardEffect';
+export { ShuffleIntoDeckEffect } from './ShuffleIntoDeckEffect';
+export { CreateCardEffect } from './CreateCardEffect';
+export { ScheduleEffect } from './ScheduleEffect';
+export { CancelScheduledEffect } from './CancelScheduledEffect';
@@ -0,0 +1,121 @@
+import { produceWithPatches } from 'immer';
+import { Card, CardCost, CostModifier, Effect, GameContext, GameState, PlayerState } from '../effects/Effect';
+import { ResourceEffect } from '../effects/primitives/ResourceEffect';
+import { ResourceRegistry, resourceRegistryOf } from '../effects/Resource';
+import { StatePatches, joinPatches, patchesOf } from '../effects/Merge';
+
+export const DEFAULT_COST_RESOURCE = 'energy';
+
+export interface ResolvedCost {
+  /** Amount of each resource the card costs after modifiers. */
+  readonly amounts: Readonly<Record<string, number>>;
+  /** Value of X when the card has an X-cost, otherwise undefined. */
+  readonly x?: number;
+  /** Resources the player is short of, with the amount still missing. */
+  readonly missing: Readonly<Record<string, number>>;
+  readonly affordable: boolean;
+}
+
+export function normalizeCost(cost: CardCost): Readonly<Record<string, number | 'X'>> {
+  if (typeof cost === 'number') {
+    return cost > 0 ? { [DEFAULT_COST_RESOURCE]: cost } : {};
+  }
+  return cost;
+}
+
+/**
+ * Resources that may go negative, see `ResourceRegistry`, are never missing.
+ */
+export function resolveCost(card: Card, player: PlayerState, resources?: ResourceRegistry): ResolvedCost {
+  const modifiers = player.costModifiers ?? [];
+  const amounts: Record<string, number> = {};
+  const missing: Record<string, number> = {};
+  let x: number | undefined;
+
+  for (const [resource, amount] of Object.entries(normalizeCost(card.cost))) {
+    const available = player.resources[resource] || 0;
+
+    if (amount === 'X') {
+      amounts[resource] = available;
+      x ??= available;
+      continue;
+    }
+
+    const modified = modifiers
+      .filter(m => m.resource === resource)
+      .reduce((total, m) => total + m.amount, amount);
+    amounts[resource] = Math.max(0, modified);
+
+    if (available < amounts[resource] && !resources?.allowsNegative(resource)) {
+      missing[resource] = amounts[resource] - available;
+    }
+  }
+
+  return {
+    amounts,
+    x,
+    missing,
+    affordable: Object.keys(missing).length === 0
+  };
+}
+
+/**
+ * Spends the resolved cost and uses up one charge of every cost modifier that changed it.
+ * Returns null, leaving the state untouched, if the player cannot pay in full.
+ */
+export function payCost(
+  card: Card,
+  context: GameContext
+): ({ newState: GameState; cost: ResolvedCost; messages: string[] } & StatePatches) | null {
+  const { gameState, playerId } = context;
+  const player = gameState.players[playerId];
+  const cost = resolveCost(card, player, resourceRegistryOf(context));
+  if (!cost.affordable) {
+    return null;
+  }
+
+  const spends = Object.entries(cost.amounts)
+    .filter(([, amount]) => amount > 0)
+    .map(([resource, amount]) => ResourceEffect.spend(resource, amount));
+  const result = Effect.sequence(spends).execute(context);
+  if (!result.success) {
+    return null;
+  }
+
+  const [newState, patches, inversePatches] = produceWithPatches(result.newState, (draft: any) => {
+    const draftPlayer = draft.players[playerId];
+    if (draftPlayer.costModifiers) {
+      draftPlayer.costModifiers = consumeModifiers(draftPlayer.costModifiers, card, cost);
+    }
+  });
+
+  return {
+    newState,
+    cost,
+    messages: result.messages,
+    ...joinPatches([patchesOf(gameState, result), { patches, inversePatches }])
+  };
+}
+
+/**
+ * Modifiers for resources the card does not cost, or that left the amount unchanged,
+ * are kept for a later card.
+ */
+function consumeModifiers(modifiers: CostModifier[], card: Card, cost: ResolvedCost): CostModifier[] {
+  const base = normalizeCost(card.cost);
+  const applied = (m: CostModifier): boolean => {
+    const amount = base[m.resource];
+    return typeof amount === 'number' && cost.amounts[m.resource] !== amount;
+  };
+  return modifiers
+    .map(m => (m.uses === undefined || !applied(m) ? m : { ...m, uses: m.uses - 1 }))
+    .filter(m => m.uses === undefined || m.uses > 0);
+}
+
+export function describeCost(cost: CardCost): string {
+  const entries = Object.entries(normalizeCost(cost));
+  if (entries.length === 0) {
+    return 'free';
+  }
+  return entries.map(([resource, amount]) => `${amount} ${resource}`).join(' + ');
+}
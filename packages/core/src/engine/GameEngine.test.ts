@@ -0,0 +1,586 @@
+import { expect } from 'chai';
+import { applyPatches } from 'immer';
+import { Card, Effect, EffectResult, GameContext, GameState, PlayerState, useService } from '../effects/Effect';
+import { Context, EventBusTag, RandomTag, Service, SimpleEventBus, defaultContext } from '../effects/Context';
+import { GameEvent } from '../effects/Events';
+import {
+  CancelScheduledEffect,
+  ChooseTargetEffect,
+  CostModifierEffect,
+  DamageEffect,
+  DiscardEffect,
+  DrawCardEffect,
+  ExhaustEffect,
+  LoseHealthEffect,
+  ScheduleEffect
+} from '../effects/primitives';
+import { KeywordRegistry } from '../effects/Keyword';
+import { ResourceRegistry } from '../effects/Resource';
+import { SeededRandomGenerator } from '../effects/Random';
+import { Value } from '../effects/Value';
+import { GameEngine } from './GameEngine';
+import { applyAction } from './GameHistory';
+import { createCard, createPlayer, createState } from '../testing/fixtures';
+
+const strike = (id: string): Card => createCard(id, { name: 'Strike', effects: [new DamageEffect(6)] });
+
+const player = (id: string, deck: Card[]): PlayerState => createPlayer(id, { deck, resources: { energy: 3, mana: 1 } });
+
+const createGame = (): GameState => ({
+  ...createState(
+    player('player1', [strike('a1'), strike('a2'), strike('a3')]),
+    player('player2', [strike('b1'), strike('b2'), strike('b3')])
+  ),
+  phase: 'draw'
+});
+
+describe('GameEngine', () => {
+  it('should draw the starting hand and enter the main phase', () => {
+    const engine = new GameEngine(createGame(), { drawCount: 2 });
+    const state = engine.start();
+
+    expect(state.phase).to.equal('main');
+    expect(state.players['player1'].hand).to.have.length(2);
+    expect(state.players['player2'].hand).to.have.length(0);
+  });
+
+  it('should play a card and run its effects', () => {
+    const engine = new GameEngine(createGame(), { drawCount: 1 });
+    const cardId = engine.start().players['player1'].hand[0].id;
+
+    const result = engine.playCard('player1', cardId);
+    expect(result.success).to.be.true;
+    expect(engine.state.players['player2'].health).to.equal(44);
+    expect(engine.state.players['player1'].hand).to.have.length(0);
+    expect(engine.state.players['player1'].discardPile.map(c => c.id)).to.deep.equal([cardId]);
+  });
+
+  it('should play one of several copies that share an id', () => {
+    const state = createGame();
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...state.players['player1'], hand: [strike('x'), strike('x')] } }
+    }, { drawCount: 0 });
+    engine.start();
+
+    expect(engine.playCard('player1', 'x').success).to.be.true;
+    expect(engine.state.players['player1'].hand.map(c => c.id)).to.deep.equal(['x']);
+    expect(engine.state.players['player1'].discardPile.map(c => c.id)).to.deep.equal(['x']);
+    expect(engine.playCard('player1', 'x').success).to.be.true;
+    expect(engine.state.players['player1'].discardPile).to.have.length(2);
+  });
+
+  it('should report patches for the whole play', () => {
+    const engine = new GameEngine(createGame(), { drawCount: 1 });
+    const before = engine.start();
+    const cardId = before.players['player1'].hand[0].id;
+
+    const result = engine.playCard('player1', cardId);
+    if (!result.success) {
+      throw new Error(result.messages.join('; '));
+    }
+    expect(applyPatches(before, result.patches)).to.deep.equal(result.newState);
+    expect(applyPatches(result.newState, result.inversePatches)).to.deep.equal(before);
+  });
+
+  it('should reject plays from the wrong player or phase', () => {
+    const engine = new GameEngine(createGame(), { drawCount: 1 });
+    const cardId = engine.start().players['player1'].hand[0].id;
+
+    const wrongPlayer = engine.playCard('player2', cardId);
+    expect(wrongPlayer.success).to.be.false;
+    expect(wrongPlayer.success === false && wrongPlayer.reason).to.equal('not-your-turn');
+
+    engine.advancePhase();
+    const wrongPhase = engine.playCard('player1', cardId);
+    expect(wrongPhase.success === false && wrongPhase.reason).to.equal('wrong-phase');
+  });
+
+  it('should enforce the hand limit and pass the turn', () => {
+    const engine = new GameEngine(createGame(), { drawCount: 3, handLimit: 1 });
+    engine.start();
+
+    const state = engine.endTurn();
+    expect(state.players['player1'].hand).to.have.length(1);
+    expect(state.players['player1'].discardPile).to.have.length(2);
+    expect(state.currentPlayer).to.equal('player2');
+    expect(state.turn).to.equal(2);
+    expect(state.phase).to.equal('main');
+    expect(state.players['player2'].hand).to.have.length(3);
+  });
+});
+
+describe('GameEngine card costs', () => {
+  const startWithHand = (...hand: Card[]): GameEngine => {
+    const state = createGame();
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...state.players['player1'], hand } }
+    }, { drawCount: 0 });
+    engine.start();
+    return engine;
+  };
+
+  it('should pay several resource types at once', () => {
+    const engine = startWithHand({ ...strike('c1'), cost: { energy: 2, mana: 1 } });
+
+    expect(engine.playCard('player1', 'c1').success).to.be.true;
+    expect(engine.state.players['player1'].resources).to.deep.equal({ energy: 1, mana: 0 });
+  });
+
+  it('should leave the card in hand and the state unchanged when the cost cannot be paid', () => {
+    const engine = startWithHand({ ...strike('c1'), cost: { energy: 2, mana: 2 } });
+    const before = engine.state;
+
+    const result = engine.playCard('player1', 'c1');
+    expect(result.success === false && result.reason).to.equal('cannot-afford');
+    expect(engine.state).to.equal(before);
+  });
+
+  it('should roll the whole play back when one of its effects fails', () => {
+    const overreach: Card = { ...strike('c1'), effects: [new DamageEffect(6), Effect.fail('Nothing to copy')] };
+    const engine = startWithHand(overreach);
+    const before = engine.state;
+
+    const result = engine.playCard('player1', 'c1');
+    expect(result.success === false && result.reason).to.equal('effect-failed');
+    expect(result.success === false && result.reason === 'effect-failed' && result.failure).to.include({ index: 1, reason: 'Nothing to copy' });
+    expect(engine.state).to.equal(before);
+    expect(engine.state.players['player1'].hand.map(c => c.id)).to.deep.equal(['c1']);
+  });
+
+  it('should spend everything on an X-cost and pass X to the effects', () => {
+    const whirlwind: Card = {
+      ...strike('c1'),
+      cost: { energy: 'X' },
+      effects: [Effect.dynamic(ctx => new DamageEffect(5).repeat(ctx.x ?? 0), 'Deal 5 damage X times')]
+    };
+    const engine = startWithHand(whirlwind);
+
+    engine.playCard('player1', 'c1');
+    expect(engine.state.players['player1'].resources['energy']).to.equal(0);
+    expect(engine.state.players['player2'].health).to.equal(35);
+  });
+
+  it('should apply cost modifiers to the next card only', () => {
+    const engine = startWithHand(
+      { ...strike('c1'), cost: 0, effects: [CostModifierEffect.discount('energy', 1, 1)] },
+      { ...strike('c2'), cost: 2 },
+      { ...strike('c3'), cost: 1 }
+    );
+
+    engine.playCard('player1', 'c1');
+    engine.playCard('player1', 'c2');
+    expect(engine.state.players['player1'].resources['energy']).to.equal(2);
+    expect(engine.state.players['player1'].costModifiers).to.deep.equal([]);
+
+    engine.playCard('player1', 'c3');
+    expect(engine.state.players['player1'].resources['energy']).to.equal(1);
+  });
+
+  it('should keep cost modifiers that did not change what a card cost', () => {
+    const engine = startWithHand(
+      { ...strike('c1'), cost: 0, effects: [CostModifierEffect.discount('mana', 1, 1)] },
+      { ...strike('c2'), cost: 0, effects: [CostModifierEffect.discount('energy', 1, 1)] },
+      { ...strike('c3'), cost: 1 },
+      { ...strike('c4'), cost: { mana: 1 } }
+    );
+
+    engine.playCard('player1', 'c1');
+    engine.playCard('player1', 'c2');
+    expect(engine.state.players['player1'].costModifiers).to.have.length(2);
+
+    engine.playCard('player1', 'c3');
+    expect(engine.state.players['player1'].resources['energy']).to.equal(3);
+    expect(engine.state.players['player1'].costModifiers!.map(m => m.resource)).to.deep.equal(['mana']);
+
+    engine.playCard('player1', 'c4');
+    expect(engine.state.players['player1'].resources['mana']).to.equal(1);
+    expect(engine.state.players['player1'].costModifiers).to.deep.equal([]);
+  });
+});
+
+describe('GameEngine services', () => {
+  interface Telemetry extends Service {
+    readonly id: 'telemetry';
+    readonly plays: string[];
+  }
+
+  class TrackEffect extends Effect {
+    readonly type = 'track';
+    readonly description = 'Record the play';
+
+    override requiredServices(): string[] {
+      return ['telemetry'];
+    }
+
+    execute(context: GameContext): EffectResult {
+      useService<Telemetry>(context, 'telemetry').plays.push(context.playerId);
+      return { success: true, newState: context.gameState, messages: [] };
+    }
+  }
+
+  const tracked = (id: string): Card => ({
+    ...strike(id),
+    effects: [Effect.sequence([new DamageEffect(1), new TrackEffect().repeat(2)])]
+  });
+
+  const createTrackedState = (): GameState => ({
+    ...createGame(),
+    players: { ...createGame().players, 'player1': player('player1', [tracked('t1')]) }
+  });
+
+  it('should give effects the services they require', () => {
+    const telemetry: Telemetry = { id: 'telemetry', plays: [] };
+    const services = defaultContext.register('telemetry', { provide: () => telemetry });
+    const engine = new GameEngine(createTrackedState(), { drawCount: 1, services });
+    engine.start();
+
+    expect(engine.playCard('player1', 't1').success).to.be.true;
+    expect(telemetry.plays).to.deep.equal(['player1', 'player1']);
+  });
+
+  it('should share its random generator and event bus with the services', () => {
+    const seen: unknown[] = [];
+    const probe = (id: string): Card => ({
+      ...strike(id),
+      effects: [Effect.dynamic(ctx => {
+        seen.push(useService(ctx, RandomTag) === ctx.rng);
+        useService(ctx, EventBusTag).emit('probed', id);
+        return Effect.succeed(undefined);
+      }, 'Probe the services')]
+    });
+    const state = createGame();
+    const bus = new SimpleEventBus();
+    const services = defaultContext.register(EventBusTag, { provide: () => bus });
+    bus.subscribe('probed', data => seen.push(data));
+    bus.subscribe('cardPlayed', () => seen.push('cardPlayed'));
+
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...state.players['player1'], hand: [probe('p1'), probe('p2')] } }
+    }, { drawCount: 0, services });
+    engine.start();
+    engine.playCard('player1', 'p1');
+    expect(seen).to.deep.equal([true, 'p1', 'cardPlayed']);
+
+    const seeded = new GameEngine(engine.state, { drawCount: 0, random: new SeededRandomGenerator(5) });
+    seen.length = 0;
+    seeded.playCard('player1', 'p2');
+    expect(seen).to.deep.equal([true]);
+  });
+
+  it('should reject cards whose services are missing before resolving them', () => {
+    const engine = new GameEngine(createTrackedState(), { drawCount: 1, services: new Context() });
+    const before = engine.start();
+
+    const result = engine.playCard('player1', 't1');
+    expect(result.success === false && result.reason).to.equal('missing-service');
+    expect(result.messages[0]).to.contain('telemetry');
+    expect(engine.state).to.equal(before);
+  });
+});
+
+describe('GameEngine choices', () => {
+  const cleave = (id: string): Card => ({
+    ...strike(id),
+    effects: [new DamageEffect(3, 'randomEnemy'), new DiscardEffect(1), new ChooseTargetEffect(new DamageEffect(5, 'chosen'))]
+  });
+
+  const createChoiceState = (): GameState => ({
+    players: {
+      'player1': { ...player('player1', []), hand: [cleave('c1'), strike('s1'), strike('s2')] },
+      'player2': player('player2', []),
+      'player3': player('player3', [])
+    },
+    currentPlayer: 'player1',
+    turn: 1,
+    phase: 'draw'
+  });
+
+  it('should hold the play until every choice is answered, then resolve it with the same rolls', () => {
+    const engine = new GameEngine(createChoiceState(), { drawCount: 0, random: new SeededRandomGenerator(7) });
+    const before = engine.start();
+
+    const first = engine.playCard('player1', 'c1');
+    expect(first.success === false && first.reason).to.equal('awaiting-choice');
+    expect(first.success === false && first.reason === 'awaiting-choice' && first.choice.kind).to.equal('card');
+    expect(engine.state).to.equal(before);
+    const rolled = first.messages[0];
+
+    const second = engine.answer('player1', ['s2']);
+    expect(second.success === false && second.reason === 'awaiting-choice' && second.choice.options.map(o => o.id))
+      .to.deep.equal(['player2', 'player3']);
+
+    const done = engine.answer('player1', ['player2']);
+    expect(done.success).to.be.true;
+    expect(done.messages).to.include(rolled);
+    expect(engine.pendingChoice).to.be.undefined;
+
+    const { players } = engine.state;
+    expect(players['player2'].health + players['player3'].health).to.equal(92);
+    expect(players['player1'].hand.map(c => c.id)).to.deep.equal(['s1']);
+    expect(players['player1'].discardPile.map(c => c.id)).to.deep.equal(['s2', 'c1']);
+  });
+
+  it('should reject bad answers and other plays while a choice is pending', () => {
+    const engine = new GameEngine(createChoiceState(), { drawCount: 0 });
+    engine.start();
+    engine.playCard('player1', 'c1');
+
+    const badAnswer = engine.answer('player1', ['c1']);
+    expect(badAnswer.success === false && badAnswer.reason).to.equal('invalid-answer');
+    expect(engine.pendingChoice).to.exist;
+
+    const otherPlay = engine.playCard('player1', 's1');
+    expect(otherPlay.success === false && otherPlay.reason).to.equal('choice-pending');
+    expect(() => engine.advancePhase()).to.throw(/choice is pending/);
+    expect(applyAction(engine, { type: 'endTurn' })).to.be.false;
+
+    const otherPlayer = engine.answer('player2', ['s1']);
+    expect(otherPlayer.success === false && otherPlayer.reason).to.equal('not-your-choice');
+    expect(applyAction(engine, { type: 'answer', playerId: 'player2', answer: ['s1'] })).to.be.false;
+    expect(applyAction(engine, { type: 'answer', playerId: 'player1', answer: ['s1'] })).to.be.true;
+  });
+});
+
+describe('GameEngine zones', () => {
+  it('should resolve cards from the play area and leave exhausted cards in the exhaust pile', () => {
+    const flash: Card = { ...strike('f1'), effects: [new DamageEffect(2), new ExhaustEffect(1, 'self', 'all', 'inPlay')] };
+    const state = createGame();
+    const moves: string[] = [];
+    const eventBus = new SimpleEventBus();
+    eventBus.subscribe('cardMoved', data => {
+      const event = data as Extract<GameEvent, { type: 'cardMoved' }>;
+      moves.push(`${event.cardId}:${event.from}->${event.to}`);
+    });
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...state.players['player1'], hand: [flash, strike('s1')] } }
+    }, { drawCount: 0, eventBus });
+    engine.start();
+
+    engine.playCard('player1', 'f1');
+    engine.playCard('player1', 's1');
+
+    const player1 = engine.state.players['player1'];
+    expect(player1.zones).to.deep.equal({ inPlay: [], exhaust: [flash] });
+    expect(player1.discardPile.map(c => c.id)).to.deep.equal(['s1']);
+    expect(moves).to.deep.equal(['f1:hand->inPlay', 'f1:inPlay->exhaust', 's1:hand->inPlay', 's1:inPlay->discard']);
+  });
+});
+
+describe('GameEngine keywords', () => {
+  const tagged = (id: string, ...tags: string[]): Card => ({ ...strike(id), tags });
+
+  it('should put innate cards in the opening hand', () => {
+    const state = createGame();
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': player('player1', [tagged('i1', 'innate'), strike('a1'), strike('a2'), strike('a3')]) }
+    }, { drawCount: 2 });
+
+    expect(engine.start().players['player1'].hand.map(c => c.id)).to.include('i1');
+  });
+
+  it('should keep retained cards, exhaust ethereal ones and discard the rest at the end of the turn', () => {
+    const state = createGame();
+    const hand = [tagged('r1', 'retain'), tagged('e1', 'ethereal'), strike('s1')];
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...player('player1', []), hand } }
+    }, { drawCount: 0 });
+    engine.start();
+
+    const player1 = engine.endTurn().players['player1'];
+    expect(player1.hand.map(c => c.id)).to.deep.equal(['r1']);
+    expect(player1.zones?.['exhaust']?.map(c => c.id)).to.deep.equal(['e1']);
+    expect(player1.discardPile.map(c => c.id)).to.deep.equal(['s1']);
+  });
+
+  it('should exhaust exhaust cards after they are played and refuse unplayable cards', () => {
+    const state = createGame();
+    const hand = [tagged('x1', 'exhaust'), tagged('u1', 'unplayable')];
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...player('player1', []), hand } }
+    }, { drawCount: 0 });
+    engine.start();
+
+    expect(engine.playCard('player1', 'x1').success).to.be.true;
+    expect(engine.state.players['player1'].zones?.['exhaust']?.map(c => c.id)).to.deep.equal(['x1']);
+
+    const refused = engine.playCard('player1', 'u1');
+    expect(refused.success === false && refused.reason).to.equal('unplayable');
+    expect(refused.messages).to.deep.equal(['Strike cannot be played (Unplayable)']);
+  });
+
+  it('should run the hooks of registered keywords', () => {
+    const keywords = KeywordRegistry.withBuiltins()
+      .register({ id: 'burning', name: 'Burning', description: 'Hurts while held', onTurnEnd: () => new LoseHealthEffect(2) })
+      .register({ id: 'echo', name: 'Echo', description: 'Deals 1 more damage', onPlay: () => new DamageEffect(1) });
+    const state = createGame();
+    const hand = [tagged('b1', 'burning', 'retain'), tagged('o1', 'echo')];
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...player('player1', []), hand } }
+    }, { drawCount: 0, keywords });
+    engine.start();
+
+    engine.playCard('player1', 'o1');
+    expect(engine.state.players['player2'].health).to.equal(43);
+
+    engine.endTurn();
+    expect(engine.state.players['player1'].health).to.equal(48);
+    expect(engine.state.players['player1'].hand.map(c => c.id)).to.deep.equal(['b1']);
+  });
+
+  it('should leave the state alone when a keyword hook fails', () => {
+    const keywords = KeywordRegistry.withBuiltins().register({
+      id: 'fragile',
+      name: 'Fragile',
+      description: 'Hurts, then breaks',
+      onTurnEnd: () => Effect.sequence([new LoseHealthEffect(2), Effect.fail('Broken')], 'commit')
+    });
+    const state = createGame();
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...player('player1', []), hand: [tagged('f1', 'fragile')] } }
+    }, { drawCount: 0, keywords });
+    engine.start();
+
+    engine.endTurn();
+    expect(engine.state.players['player1'].health).to.equal(50);
+  });
+});
+
+describe('GameEngine resources', () => {
+  it('should give starting amounts and refill energy each turn', () => {
+    const resources = new ResourceRegistry().register({ id: 'energy', name: 'Energy', start: 3, refill: 3, carryOver: false });
+    const state = createGame();
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...state.players['player1'], resources: {} } }
+    }, { drawCount: 1, resources });
+    const cardId = engine.start().players['player1'].hand[0].id;
+    expect(engine.state.players['player1'].resources).to.deep.equal({ energy: 3 });
+
+    engine.playCard('player1', cardId);
+    engine.endTurn();
+    expect(engine.state.players['player1'].resources['energy']).to.equal(0);
+
+    engine.endTurn();
+    expect(engine.state.players['player1'].resources['energy']).to.equal(3);
+  });
+
+  it('should keep the energy players are given under the built-in rules', () => {
+    const state = createGame();
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...state.players['player1'], resources: { energy: 5 } } }
+    }, { drawCount: 1 });
+    const cardId = engine.start().players['player1'].hand[0].id;
+
+    engine.playCard('player1', cardId);
+    engine.endTurn();
+    engine.endTurn();
+    expect(engine.state.players['player1'].resources['energy']).to.equal(4);
+  });
+
+  it('should play cards that go into debt on resources that allow it', () => {
+    const resources = ResourceRegistry.withBuiltins().register({ id: 'mana', name: 'Mana', allowNegative: true });
+    const state = createGame();
+    const engine = new GameEngine({
+      ...state,
+      players: { ...state.players, 'player1': { ...state.players['player1'], hand: [{ ...strike('c1'), cost: { mana: 3 } }] } }
+    }, { drawCount: 0, resources });
+    engine.start();
+
+    expect(engine.playCard('player1', 'c1').success).to.be.true;
+    expect(engine.state.players['player1'].resources['mana']).to.equal(-2);
+  });
+});
+
+describe('GameEngine scheduled effects', () => {
+  const withHand = (...hand: Card[]): GameState => {
+    const state = createGame();
+    return { ...state, players: { ...state.players, 'player1': { ...state.players['player1'], hand } } };
+  };
+
+  it('should resolve scheduled effects in later turns for their owner', () => {
+    const engine = new GameEngine(withHand(
+      { ...strike('n1'), cost: 0, effects: [new ScheduleEffect(new DrawCardEffect(2))] },
+      { ...strike('t1'), cost: 0, effects: [new ScheduleEffect(new DamageEffect(30), 'draw', 2, 'self', 'bomb')] }
+    ), { drawCount: 0 });
+    engine.start();
+    engine.playCard('player1', 'n1');
+    engine.playCard('player1', 't1');
+    expect(engine.state.scheduled).to.have.length(2);
+
+    engine.endTurn();
+    engine.endTurn();
+    expect(engine.state.players['player1'].hand).to.have.length(2);
+    expect(engine.state.scheduled?.map(entry => entry.remaining)).to.deep.equal([1]);
+
+    engine.endTurn();
+    engine.endTurn();
+    expect(engine.state.players['player2'].health).to.equal(20);
+    expect(engine.state.scheduled).to.deep.equal([]);
+  });
+
+  it('should resolve scheduled effects with the X and target of the play that scheduled them', () => {
+    const engine = new GameEngine(withHand(
+      { ...strike('x1'), cost: { energy: 'X' }, effects: [new ScheduleEffect(new DamageEffect(Value.multiply(Value.x(), 2), 'chosen'))] }
+    ), { drawCount: 0 });
+    engine.start();
+    engine.playCard('player1', 'x1', 'player2');
+    expect(engine.state.scheduled?.[0].bindings).to.deep.equal({ x: 3, paid: { energy: 3 }, targetId: 'player2' });
+
+    engine.endTurn();
+    engine.endTurn();
+    expect(engine.state.players['player2'].health).to.equal(44);
+  });
+
+  it('should skip scheduled effects that ask for a choice without changing the state', () => {
+    const logged: string[] = [];
+    const engine = new GameEngine(withHand(
+      { ...strike('d1'), cost: 0, effects: [new ScheduleEffect(new DiscardEffect(1), 'main')] },
+      strike('s1')
+    ), { drawCount: 0, handLimit: 5, log: message => logged.push(message) });
+    engine.start();
+    engine.playCard('player1', 'd1');
+
+    engine.endTurn();
+    engine.endTurn();
+    expect(engine.state.players['player1'].hand.map(c => c.id)).to.deep.equal(['s1']);
+    expect(engine.state.scheduled).to.deep.equal([]);
+    expect(engine.pendingChoice).to.be.undefined;
+    expect(logged).to.include('Skipped: Discard 1 card needs a choice, which only card plays can wait for');
+    expect(engine.playCard('player1', 's1').success).to.be.true;
+  });
+
+  it('should keep the schedule through saving and loading, until an effect cancels it', () => {
+    const engine = new GameEngine(withHand(
+      { ...strike('t1'), cost: 0, effects: [new ScheduleEffect(new DamageEffect(30), 'draw', 1, 'self', 'bomb')] }
+    ), { drawCount: 0 });
+    engine.start();
+    engine.playCard('player1', 't1');
+
+    const saved: GameState = JSON.parse(JSON.stringify(engine.state));
+    const defuse: Card = { ...strike('d1'), cost: 0, effects: [new CancelScheduledEffect('bomb', 'opponent')] };
+    const defused = new GameEngine({
+      ...saved,
+      players: { ...saved.players, 'player2': { ...saved.players['player2'], hand: [defuse] } }
+    }, { drawCount: 0 });
+    const loaded = new GameEngine(saved, { drawCount: 0 });
+
+    loaded.endTurn();
+    loaded.endTurn();
+    expect(loaded.state.players['player2'].health).to.equal(20);
+
+    defused.endTurn();
+    defused.playCard('player2', 'd1');
+    defused.endTurn();
+    expect(defused.state.players['player2'].health).to.equal(50);
+  });
+});
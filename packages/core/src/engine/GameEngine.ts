@@ -0,0 +1,642 @@
+import { Patch, produce, produceWithPatches } from 'immer';
+import { Card, Effect, GameContext, GameState, GamePhase, PlayerState, EffectResult, EffectFailure, missingServices } from '../effects/Effect';
+import { DrawCardEffect } from '../effects/primitives/DrawCardEffect';
+import { StatusRegistry, tickStatuses } from '../effects/Status';
+import { DamageModifier } from '../effects/Damage';
+import { GameEvent } from '../effects/Events';
+import { StatePatches, joinPatches, patchesOf } from '../effects/Merge';
+import {
+  Context,
+  EffectRegistryTag,
+  EventBus,
+  EventBusTag,
+  KeywordRegistryTag,
+  RandomTag,
+  ResourceRegistryTag,
+  defaultContext
+} from '../effects/Context';
+import { EffectRegistry } from '../effects/EffectRegistry';
+import { ScheduledEffect } from '../effects/Schedule';
+import { KeywordRegistry } from '../effects/Keyword';
+import { ResourceRegistry, expireResources, refillResources } from '../effects/Resource';
+import { RandomGenerator, RandomState, SeededRandomGenerator } from '../effects/Random';
+import { ChoiceAnswer, ChoiceQueue, PendingChoice, checkAnswer } from '../effects/Choice';
+import { moveCards, setZoneCards, zoneCards } from '../effects/Zone';
+import { TriggerSystem } from './TriggerSystem';
+import { describeCost, payCost } from './Cost';
+
+export interface GameEngineOptions {
+  /** Seat order used to pass the turn. Defaults to the key order of `players`. */
+  readonly turnOrder?: string[];
+  /** Cards drawn by the current player when the 'draw' phase starts. */
+  readonly drawCount?: number;
+  /** Cards a player may keep through the 'discard' phase. 0 discards the whole hand. */
+  readonly handLimit?: number;
+  readonly statuses?: StatusRegistry;
+  /** Keywords cards follow through their tags. Defaults to the one in `services`. */
+  readonly keywords?: KeywordRegistry;
+  /** Resource rules, applied at the start and end of each turn. Defaults to the one in `services`. */
+  readonly resources?: ResourceRegistry;
+  readonly damageModifiers?: readonly DamageModifier[];
+  readonly triggers?: TriggerSystem;
+  /**
+   * Receives every domain event, keyed by its `type`, after triggers have resolved.
+   * Defaults to the one in `services`.
+   */
+  readonly eventBus?: EventBus;
+  /**
+   * A generator also gives effects named streams, e.g. for shuffles, and lets plays that
+   * wait for a choice resolve again with the same rolls. Defaults to the one in `services`,
+   * or an unseeded generator. A generator or event bus passed here replaces the one in
+   * the engine's scope, so effects using the services see the same one.
+   */
+  readonly random?: (() => number) | RandomGenerator;
+  readonly log?: (message: string) => void;
+  /** Services effects can use. The engine works in its own scope of it. Defaults to `defaultContext`. */
+  readonly services?: Context;
+}
+
+export type PlayRejectionReason =
+  | 'unknown-player'
+  | 'not-your-turn'
+  | 'wrong-phase'
+  | 'card-not-in-hand'
+  | 'invalid-target'
+  | 'missing-service'
+  | 'cannot-afford'
+  | 'unplayable'
+  /** Another play is waiting for a choice. */
+  | 'choice-pending'
+  /** The pending choice belongs to another player. */
+  | 'not-your-choice'
+  | 'invalid-answer';
+
+export type PlayCardResult =
+  | {
+      readonly success: true;
+      readonly newState: GameState;
+      readonly messages: string[];
+      readonly effectResult: EffectResult;
+      /**
+       * Immer patches from the state before the play to `newState`: the card's moves,
+       * the cost, its effects and the triggers they set off.
+       */
+      readonly patches: Patch[];
+      readonly inversePatches: Patch[];
+    }
+  | {
+      readonly success: false;
+      /** The play is on hold until `answer` is called. Nothing has been committed. */
+      readonly reason: 'awaiting-choice';
+      readonly choice: PendingChoice;
+      readonly messages: string[];
+    }
+  | {
+      readonly success: false;
+      /** An effect of the card failed. The play was rolled back: nothing was paid and the card is still in hand. */
+      readonly reason: 'effect-failed';
+      readonly failure: EffectFailure;
+      readonly messages: string[];
+    }
+  | {
+      readonly success: false;
+      readonly reason: PlayRejectionReason;
+      readonly messages: string[];
+    };
+
+/**
+ * A card play, with everything needed to resolve it again from the start.
+ */
+export interface Play {
+  readonly playerId: string;
+  readonly cardId: string;
+  readonly targetId?: string;
+  readonly state: GameState;
+  readonly random?: RandomState;
+  readonly answers: readonly ChoiceAnswer[];
+}
+
+/** A play on hold until its choice is answered. */
+export interface PendingPlay {
+  readonly play: Play;
+  readonly choice: PendingChoice;
+}
+
+/**
+ * What `restore` needs to put the engine back at a point of the game exactly: the
+ * state, the random generator's position and the play waiting for a choice, if any.
+ */
+export interface EngineSnapshot {
+  readonly state: GameState;
+  readonly random?: RandomState;
+  readonly pending?: PendingPlay;
+}
+
+const PHASE_ORDER: readonly GamePhase[] = ['draw', 'main', 'discard', 'end'];
+
+export class GameEngine {
+  private currentState: GameState;
+  private readonly turnOrder: string[];
+  private readonly drawCount: number;
+  private readonly handLimit: number;
+  private readonly statuses?: StatusRegistry;
+  private readonly keywords: KeywordRegistry;
+  private readonly resources: ResourceRegistry;
+  /** Rebuilds scheduled effects from the game state. */
+  private readonly effects: EffectRegistry;
+  private readonly damageModifiers?: readonly DamageModifier[];
+  private readonly eventBus?: EventBus;
+  readonly triggers: TriggerSystem;
+  private readonly random: () => number;
+  private readonly rng?: RandomGenerator;
+  private readonly log: (message: string) => void;
+  private readonly services: Context;
+  private pending?: PendingPlay;
+
+  constructor(initialState: GameState, options: GameEngineOptions = {}) {
+    this.currentState = initialState;
+    this.turnOrder = options.turnOrder ?? Object.keys(initialState.players);
+    this.drawCount = options.drawCount ?? 5;
+    this.handLimit = options.handLimit ?? 0;
+    this.statuses = options.statuses;
+    this.damageModifiers = options.damageModifiers;
+    this.triggers = options.triggers ?? new TriggerSystem();
+    this.services = (options.services ?? defaultContext).scope([
+      ...(typeof options.random === 'object' ? [options.random] : []),
+      ...(options.eventBus ? [options.eventBus] : [])
+    ]);
+    this.eventBus = options.eventBus ?? (this.services.has(EventBusTag) ? this.services.provide(EventBusTag) : undefined);
+    const random = options.random ?? (this.services.has(RandomTag) ?
+      this.services.provide(RandomTag) :
+      new SeededRandomGenerator());
+    this.random = typeof random === 'function' ? random : () => random.next();
+    this.rng = typeof random === 'function' ? undefined : random;
+    this.log = options.log ?? (() => {});
+    this.keywords = options.keywords ?? (this.services.has(KeywordRegistryTag) ?
+      this.services.provide(KeywordRegistryTag) :
+      KeywordRegistry.withBuiltins());
+    this.resources = options.resources ?? (this.services.has(ResourceRegistryTag) ?
+      this.services.provide(ResourceRegistryTag) :
+      ResourceRegistry.withBuiltins());
+    this.effects = this.services.has(EffectRegistryTag) ?
+      this.services.provide(EffectRegistryTag) :
+      EffectRegistry.withBuiltins();
+
+    for (const id of this.turnOrder) {
+      if (!initialState.players[id]) {
+        throw new Error(`Turn order references unknown player: ${id}`);
+      }
+    }
+  }
+
+  get state(): GameState {
+    return this.currentState;
+  }
+
+  snapshot(): EngineSnapshot {
+    return {
+      state: this.currentState,
+      ...(this.rng ? { random: this.rng.getState() } : {}),
+      ...(this.pending ? { pending: this.pending } : {})
+    };
+  }
+
+  /**
+   * Replaces the current state, e.g. to rewind to an earlier point. A snapshot also
+   * rewinds the random generator and brings back its pending play. Options and
+   * registered triggers are kept.
+   */
+  restore(target: GameState | EngineSnapshot): void {
+    const snapshot: EngineSnapshot = 'players' in target ? { state: target } : target;
+    this.currentState = snapshot.state;
+    this.pending = snapshot.pending;
+    if (snapshot.random) {
+      this.rng?.setState(snapshot.random);
+    }
+  }
+
+  /** The choice the current play is waiting on, if any. */
+  get pendingChoice(): PendingChoice | undefined {
+    return this.pending?.choice;
+  }
+
+  /**
+   * Ends the game's service scope, disposing the scoped services it built.
+   */
+  dispose(): Promise<void> {
+    return this.services.dispose();
+  }
+
+  /**
+   * Gives every player the starting amount of declared resources they have none of and
+   * puts their innate cards on top of their deck, then runs the 'draw' phase for the
+   * current player and moves on to 'main'.
+   */
+  start(): GameState {
+    const innate = (card: Card): boolean => this.keywords.some(card, keyword => !!keyword.innate);
+    this.currentState = produce(this.currentState, (draft: any) => {
+      for (const id of this.turnOrder) {
+        const { deck, resources } = this.currentState.players[id];
+        for (const resource of this.resources.list()) {
+          if (resources[resource.id] === undefined) {
+            draft.players[id].resources[resource.id] = resource.start ?? 0;
+          }
+        }
+        setZoneCards(draft.players[id], 'deck', [...deck.filter(card => !innate(card)), ...deck.filter(innate)]);
+      }
+    });
+    this.enterPhase('draw');
+    return this.advancePhase();
+  }
+
+  /**
+   * Moves to the next phase in order, running its entry rules. Leaving 'end'
+   * passes the turn to the next player and starts their 'draw' phase. Throws while
+   * a choice is pending; `applyAction` rejects the action instead.
+   */
+  advancePhase(): GameState {
+    if (this.pending) {
+      throw new Error(`Cannot advance the phase while a choice is pending: ${this.pending.choice.prompt}`);
+    }
+
+    const { phase } = this.currentState;
+
+    if (phase === 'end') {
+      this.passTurn();
+      this.enterPhase('draw');
+    } else {
+      this.enterPhase(PHASE_ORDER[PHASE_ORDER.indexOf(phase) + 1]);
+    }
+
+    return this.currentState;
+  }
+
+  /**
+   * Finishes the current player's turn and advances to the next player's 'main' phase.
+   */
+  endTurn(): GameState {
+    while (this.currentState.phase !== 'end') {
+      this.advancePhase();
+    }
+    let state = this.advancePhase();
+    while (state.phase !== 'main') {
+      state = this.advancePhase();
+    }
+    return state;
+  }
+
+  /**
+   * Plays a card from the current player's hand. `targetId` is the player picked
+   * for effects that target the chosen player.
+   */
+  playCard(playerId: string, cardId: string, targetId?: string): PlayCardResult {
+    const rejection = this.validatePlay(playerId, cardId, targetId);
+    if (rejection) {
+      return { success: false, reason: rejection.reason, messages: [rejection.message] };
+    }
+
+    return this.resolvePlay({
+      playerId,
+      cardId,
+      targetId,
+      state: this.currentState,
+      random: this.rng?.getState(),
+      answers: []
+    });
+  }
+
+  /**
+   * Answers the pending choice, as the player it belongs to, with the ids of the picked
+   * options. The play resolves again from the start with every answer so far and the
+   * random state it began with.
+   */
+  answer(playerId: string, answer: ChoiceAnswer): PlayCardResult {
+    if (!this.pending) {
+      return { success: false, reason: 'invalid-answer', messages: ['No choice is waiting for an answer'] };
+    }
+
+    const { choice } = this.pending;
+    if (playerId !== choice.playerId) {
+      return { success: false, reason: 'not-your-choice', messages: [`The choice is ${choice.playerId}'s to make, not ${playerId}'s`] };
+    }
+
+    const problem = checkAnswer(choice, answer);
+    if (problem) {
+      return { success: false, reason: 'invalid-answer', messages: [problem] };
+    }
+
+    const { play } = this.pending;
+    return this.resolvePlay({ ...play, answers: [...play.answers, answer] });
+  }
+
+  private resolvePlay(play: Play): PlayCardResult {
+    const { playerId, cardId, targetId } = play;
+    if (play.random) {
+      this.rng!.setState(play.random);
+    }
+
+    // The card sits in the play area while it resolves.
+    const card = play.state.players[playerId].hand.find(c => c.id === cardId)!;
+    let played: GameEvent[] = [];
+    const [inPlay, playPatches, playInverse] = produceWithPatches(play.state, (draft: any) => {
+      played = moveCards(draft, playerId, [card], 'hand', 'inPlay', 'top', this.random);
+    });
+
+    const payment = payCost(card, this.createContext(playerId, inPlay));
+    if (!payment) {
+      return {
+        success: false,
+        reason: 'cannot-afford',
+        messages: [`${playerId} cannot pay ${describeCost(card.cost)} for ${card.name}`]
+      };
+    }
+
+    const keywords = this.keywords.of(card);
+    const onPlay = keywords.flatMap(keyword => keyword.onPlay ? [keyword.onPlay(card)] : []);
+    const effectResult = Effect.sequence([...card.effects, ...onPlay], 'rollback').execute({
+      ...this.createContext(playerId, payment.newState),
+      x: payment.cost.x,
+      paid: payment.cost.amounts,
+      targetId,
+      choices: new ChoiceQueue(play.answers)
+    });
+
+    if (effectResult.pending) {
+      this.pending = { play, choice: effectResult.pending };
+      return { success: false, reason: 'awaiting-choice', choice: effectResult.pending, messages: effectResult.messages };
+    }
+    this.pending = undefined;
+
+    if (!effectResult.success) {
+      if (play.random) {
+        this.rng!.setState(play.random);
+      }
+      return { success: false, reason: 'effect-failed', failure: effectResult.failure!, messages: effectResult.messages };
+    }
+
+    // Unless an effect moved it elsewhere, e.g. exhausted it.
+    const destination = keywords.find(keyword => keyword.afterPlay)?.afterPlay ?? 'discard';
+    let settled: GameEvent[] = [];
+    const [settledState, settlePatches, settleInverse] = produceWithPatches(effectResult.newState, (draft: any) => {
+      if (zoneCards(draft.players[playerId], 'inPlay').some(c => c.id === cardId)) {
+        settled = moveCards(draft, playerId, [card], 'inPlay', destination, 'top', this.random);
+      }
+    });
+    this.currentState = settledState;
+
+    const messages = [`${playerId} plays ${card.name}`, ...payment.messages, ...effectResult.messages];
+    messages.forEach(message => this.log(message));
+    const reactions = this.emit([...played, ...(effectResult.events ?? []), ...settled, { type: 'cardPlayed', playerId, cardId }], playerId);
+
+    return {
+      success: true,
+      newState: this.currentState,
+      messages,
+      effectResult,
+      ...joinPatches([
+        { patches: playPatches, inversePatches: playInverse },
+        payment,
+        patchesOf(payment.newState, effectResult),
+        { patches: settlePatches, inversePatches: settleInverse },
+        reactions
+      ])
+    };
+  }
+
+  private validatePlay(
+    playerId: string,
+    cardId: string,
+    targetId: string | undefined
+  ): { reason: PlayRejectionReason; message: string } | null {
+    if (this.pending) {
+      return { reason: 'choice-pending', message: `Waiting for ${this.pending.choice.playerId}: ${this.pending.choice.prompt}` };
+    }
+
+    const { players, currentPlayer, phase } = this.currentState;
+    const player = players[playerId];
+
+    if (!player) {
+      return { reason: 'unknown-player', message: `Player ${playerId} not found` };
+    }
+    if (currentPlayer !== playerId) {
+      return { reason: 'not-your-turn', message: `It is ${currentPlayer}'s turn, not ${playerId}'s` };
+    }
+    if (phase !== 'main') {
+      return { reason: 'wrong-phase', message: `Cards can only be played in the main phase (currently ${phase})` };
+    }
+    const card = player.hand.find(c => c.id === cardId);
+    if (!card) {
+      return { reason: 'card-not-in-hand', message: `Card ${cardId} is not in ${playerId}'s hand` };
+    }
+    const unplayable = this.keywords.of(card).find(keyword => keyword.unplayable);
+    if (unplayable) {
+      return { reason: 'unplayable', message: `${card.name} cannot be played (${unplayable.name})` };
+    }
+    if (targetId !== undefined && !players[targetId]) {
+      return { reason: 'invalid-target', message: `Target player ${targetId} not found` };
+    }
+    const missing = missingServices([...card.effects, ...(card.triggers ?? []).map(t => t.effect)], this.services);
+    if (missing.length > 0) {
+      return { reason: 'missing-service', message: `${card.name} needs services that are not registered: ${missing.join(', ')}` };
+    }
+    return null;
+  }
+
+  private enterPhase(phase: GamePhase): void {
+    this.currentState = produce(this.currentState, (draft: any) => {
+      draft.phase = phase;
+    });
+
+    const { currentPlayer, turn } = this.currentState;
+    if (phase === 'draw') {
+      this.expireBlock();
+      this.updateResources(refillResources);
+      this.emit([{ type: 'turnStarted', playerId: currentPlayer, turn }], currentPlayer);
+    }
+
+    this.commit(tickStatuses(this.createContext(currentPlayer, this.currentState), phase), currentPlayer);
+    this.resolveScheduled(phase);
+
+    if (phase === 'end') {
+      this.updateResources(expireResources);
+      this.emit([{ type: 'turnEnded', playerId: currentPlayer, turn }], currentPlayer);
+    }
+
+    switch (phase) {
+      case 'draw':
+        this.drawStartingHand();
+        this.runHandHooks('onTurnStart');
+        break;
+
+      case 'discard':
+        this.runHandHooks('onTurnEnd');
+        this.settleHand();
+        this.enforceHandLimit();
+        break;
+    }
+  }
+
+  /**
+   * Counts down the scheduled effects waiting for this phase of the current player and
+   * resolves those that are due, oldest first, each for its owner and with the
+   * bindings of the play that scheduled it. One that asks for a choice is dropped.
+   */
+  private resolveScheduled(phase: GamePhase): void {
+    const { currentPlayer, scheduled = [] } = this.currentState;
+    const waiting = (entry: ScheduledEffect): boolean => entry.playerId === currentPlayer && entry.phase === phase;
+    if (!scheduled.some(waiting)) {
+      return;
+    }
+
+    const counted = scheduled.map(entry => waiting(entry) ? { ...entry, remaining: entry.remaining - 1 } : entry);
+    this.currentState = produce(this.currentState, (draft: any) => {
+      draft.scheduled = counted.filter(entry => entry.remaining > 0);
+    });
+
+    for (const entry of counted.filter(e => e.remaining <= 0)) {
+      const effect = this.effects.build(entry.effect);
+      this.commit(effect.execute({ ...this.createContext(entry.owner, this.currentState), ...entry.bindings }), entry.owner);
+    }
+  }
+
+  private expireBlock(): void {
+    const playerId = this.currentState.currentPlayer;
+    if (!this.currentState.players[playerId].block) {
+      return;
+    }
+
+    this.currentState = produce(this.currentState, (draft: any) => {
+      draft.players[playerId].block = 0;
+    });
+  }
+
+  private updateResources(update: (player: PlayerState, registry: ResourceRegistry) => Record<string, number>): void {
+    const playerId = this.currentState.currentPlayer;
+    this.currentState = produce(this.currentState, (draft: any) => {
+      draft.players[playerId].resources = update(this.currentState.players[playerId], this.resources);
+    });
+  }
+
+  private drawStartingHand(): void {
+    if (this.drawCount <= 0) {
+      return;
+    }
+
+    const playerId = this.currentState.currentPlayer;
+    this.commit(new DrawCardEffect(this.drawCount).execute(this.createContext(playerId, this.currentState)), playerId);
+  }
+
+  /**
+   * Resolves a keyword hook for each card in the current player's hand, in hand order.
+   */
+  private runHandHooks(hook: 'onTurnStart' | 'onTurnEnd'): void {
+    const playerId = this.currentState.currentPlayer;
+    for (const card of this.currentState.players[playerId].hand) {
+      for (const keyword of this.keywords.of(card)) {
+        const effect = keyword[hook]?.(card);
+        if (effect) {
+          this.commit(effect.execute(this.createContext(playerId, this.currentState)), playerId);
+        }
+      }
+    }
+  }
+
+  /** Moves the cards whose keywords say where they go at the end of the turn, e.g. ethereal ones. */
+  private settleHand(): void {
+    const playerId = this.currentState.currentPlayer;
+    const leaving = this.currentState.players[playerId].hand.flatMap(card => {
+      const keyword = this.keywords.of(card).find(k => k.endOfTurn);
+      return keyword ? [{ card, keyword }] : [];
+    });
+    if (leaving.length === 0) {
+      return;
+    }
+
+    let moved: GameEvent[] = [];
+    this.currentState = produce(this.currentState, (draft: any) => {
+      moved = leaving.flatMap(({ card, keyword }) =>
+        moveCards(draft, playerId, [card], 'hand', keyword.endOfTurn!, 'top', this.random));
+    });
+    leaving.forEach(({ card, keyword }) => this.log(`${playerId}'s ${card.name} leaves the hand (${keyword.name})`));
+    this.emit(moved, playerId);
+  }
+
+  private enforceHandLimit(): void {
+    const playerId = this.currentState.currentPlayer;
+    const retained = (card: Card): boolean => this.keywords.some(card, keyword => !!keyword.retain);
+    const discarded = this.currentState.players[playerId].hand.filter(card => !retained(card)).slice(this.handLimit);
+    const excess = discarded.length;
+    if (excess <= 0) {
+      return;
+    }
+
+    let moved: GameEvent[] = [];
+    this.currentState = produce(this.currentState, (draft: any) => {
+      moved = moveCards(draft, playerId, discarded, 'hand', 'discard', 'top', this.random);
+    });
+    this.log(`${playerId} discards ${excess} card${excess > 1 ? 's' : ''}`);
+    this.emit(moved, playerId);
+  }
+
+  private passTurn(): void {
+    const index = this.turnOrder.indexOf(this.currentState.currentPlayer);
+    const nextPlayer = this.turnOrder[(index + 1) % this.turnOrder.length];
+
+    this.currentState = produce(this.currentState, (draft: any) => {
+      draft.currentPlayer = nextPlayer;
+      draft.turn += 1;
+    });
+    this.log(`Turn ${this.currentState.turn}: ${nextPlayer}`);
+  }
+
+  /**
+   * Applies an effect resolved outside a card play. Failed effects change nothing, and
+   * neither do ones that ask for a choice, since only card plays can wait for an answer.
+   */
+  private commit(result: EffectResult, playerId: string): void {
+    result.messages.forEach(message => this.log(message));
+    if (result.pending) {
+      this.log(`Skipped: ${result.pending.prompt} needs a choice, which only card plays can wait for`);
+      return;
+    }
+    if (!result.success) {
+      return;
+    }
+    this.currentState = result.newState;
+    this.emit(result.events ?? [], playerId);
+  }
+
+  /**
+   * Resolves the triggers reacting to the events, then publishes the events and
+   * everything the triggers raised on the event bus. Returns the patches of the reactions.
+   */
+  private emit(events: GameEvent[], playerId: string): StatePatches {
+    if (events.length === 0) {
+      return { patches: [], inversePatches: [] };
+    }
+
+    const before = this.currentState;
+    const reactions = this.triggers.dispatch(events, this.createContext(playerId, before));
+    this.currentState = reactions.newState;
+    reactions.messages.forEach(message => this.log(message));
+
+    for (const event of [...events, ...(reactions.events ?? [])]) {
+      this.eventBus?.emit(event.type, event);
+    }
+    return patchesOf(before, reactions);
+  }
+
+  private createContext(playerId: string, gameState: GameState): GameContext {
+    return {
+      playerId,
+      gameState,
+      random: this.random,
+      rng: this.rng,
+      log: this.log,
+      statuses: this.statuses,
+      resources: this.resources,
+      damageModifiers: this.damageModifiers,
+      services: this.services
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import { Card, GameState } from '../effects/Effect';
+import { ChooseTargetEffect, DamageEffect, GainBlockEffect } from '../effects/primitives';
+import { SeededRandomGenerator } from '../effects/Random';
+import { GameEngine } from './GameEngine';
+import { GameHistory } from './GameHistory';
+import { createCard, createPlayer, createState } from '../testing/fixtures';
+
+const strike = (id: string): Card => createCard(id, { name: 'Strike', cost: 0, effects: [new DamageEffect(6)] });
+const defend = (id: string): Card => createCard(id, { name: 'Defend', cost: 0, effects: [new GainBlockEffect(5)] });
+
+const createGame = (): GameState => ({
+  ...createState(
+    createPlayer('p1', { deck: [strike('s2'), defend('d2'), defend('d1'), strike('s1')] }),
+    createPlayer('p2', { deck: [strike('s6'), strike('s5'), strike('s4'), strike('s3')] })
+  ),
+  phase: 'draw'
+});
+
+const play = (history: GameHistory, playerId: string, cardId: string) =>
+  history.perform({ type: 'playCard', playerId, cardId });
+
+describe('GameHistory', () => {
+  it('should step back and forward through plays', () => {
+    const history = new GameHistory(new GameEngine(createGame(), { drawCount: 2 }));
+    history.perform({ type: 'start' });
+    play(history, 'p1', 's1');
+    play(history, 'p1', 'd1');
+
+    expect(history.undo()).to.be.true;
+    expect(history.engine.state.players['p1'].hand.map(c => c.id)).to.deep.equal(['d1']);
+    expect(history.undo()).to.be.true;
+    expect(history.state.players['p2'].health).to.equal(50);
+
+    expect(history.redo()).to.be.true;
+    expect(history.redo()).to.be.true;
+    expect(history.canRedo).to.be.false;
+    expect(history.state.players['p1'].block).to.equal(5);
+  });
+
+  it('should not record rejected actions', () => {
+    const history = new GameHistory(new GameEngine(createGame(), { drawCount: 2 }));
+    history.perform({ type: 'start' });
+
+    expect(play(history, 'p2', 's3')).to.be.false;
+    expect(history.timeline()).to.have.length(2);
+  });
+
+  it('should jump to a turn and branch from it', () => {
+    const history = new GameHistory(new GameEngine(createGame(), { drawCount: 2 }));
+    history.perform({ type: 'start' });
+    play(history, 'p1', 's1');
+    history.perform({ type: 'endTurn' });
+    play(history, 'p2', 's3');
+    history.perform({ type: 'endTurn' });
+
+    expect(history.jumpToTurn(2)).to.be.true;
+    expect(history.state.currentPlayer).to.equal('p2');
+    expect(history.state.players['p1'].health).to.equal(50);
+
+    play(history, 'p2', 's4');
+    expect(history.canRedo).to.be.false;
+    expect(history.branches()).to.have.length(2);
+    expect(history.timeline().map(e => e.action?.type)).to.deep.equal([undefined, 'start', 'playCard', 'endTurn', 'playCard']);
+
+    const [original] = history.branches();
+    history.checkout(original.id);
+    expect(history.state.turn).to.equal(3);
+  });
+
+  it('should share unchanged parts of the state between entries', () => {
+    const history = new GameHistory(new GameEngine(createGame(), { drawCount: 2 }));
+    history.perform({ type: 'start' });
+    play(history, 'p1', 'd1');
+
+    const [, started, defended] = history.timeline();
+    expect(defended.state).to.not.equal(started.state);
+    expect(defended.state.players['p2']).to.equal(started.state.players['p2']);
+  });
+
+  it('should rewind the random generator and pending choices with the state', () => {
+    const cleave = createCard('c1', {
+      cost: 0,
+      effects: [new DamageEffect(3, 'randomEnemy'), new ChooseTargetEffect(new DamageEffect(5, 'chosen'))]
+    });
+    const state: GameState = {
+      ...createState(createPlayer('p1', { hand: [cleave] }), createPlayer('p2'), createPlayer('p3')),
+      phase: 'draw'
+    };
+    const history = new GameHistory(new GameEngine(state, { drawCount: 0, random: new SeededRandomGenerator(3) }));
+    history.perform({ type: 'start' });
+    expect(play(history, 'p1', 'c1')).to.be.true;
+    expect(history.perform({ type: 'answer', playerId: 'p1', answer: ['p2'] })).to.be.true;
+    const answered = history.state;
+
+    expect(history.undo()).to.be.true;
+    expect(history.engine.pendingChoice?.kind).to.equal('player');
+    expect(history.perform({ type: 'answer', playerId: 'p1', answer: ['p2'] })).to.be.true;
+    expect(history.state).to.deep.equal(answered);
+
+    history.undo();
+    history.undo();
+    expect(history.engine.pendingChoice).to.be.undefined;
+    play(history, 'p1', 'c1');
+    history.perform({ type: 'answer', playerId: 'p1', answer: ['p2'] });
+    expect(history.state).to.deep.equal(answered);
+  });
+});
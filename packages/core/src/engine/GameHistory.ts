@@ -0,0 +1,171 @@
+import { GameState } from '../effects/Effect';
+import { EngineSnapshot, GameEngine, PlayCardResult } from './GameEngine';
+
+export type GameAction =
+  | { readonly type: 'start' }
+  | { readonly type: 'advancePhase' }
+  | { readonly type: 'endTurn' }
+  | { readonly type: 'playCard'; readonly playerId: string; readonly cardId: string; readonly targetId?: string }
+  /** Answers the choice a card play is waiting on, see `GameEngine.answer`. */
+  | { readonly type: 'answer'; readonly playerId: string; readonly answer: readonly string[] };
+
+/**
+ * A point of the game. Besides the state it keeps the random generator's position
+ * and any play waiting for a choice, so the game continues from it as it did.
+ */
+export interface HistoryEntry extends EngineSnapshot {
+  readonly id: number;
+  readonly parentId?: number;
+  /** The action that led to this entry; absent for the initial state. */
+  readonly action?: GameAction;
+}
+
+const accepted = (result: PlayCardResult): boolean =>
+  result.success || ('reason' in result && result.reason === 'awaiting-choice');
+
+/**
+ * Runs an action against the engine. Returns false when the engine rejected it;
+ * a play stopped at a choice counts as accepted. While a choice is pending, only
+ * its answer is accepted.
+ */
+export function applyAction(engine: GameEngine, action: GameAction): boolean {
+  switch (action.type) {
+    case 'start':
+    case 'advancePhase':
+    case 'endTurn':
+      if (engine.pendingChoice) {
+        return false;
+      }
+      engine[action.type]();
+      return true;
+
+    case 'playCard':
+      return accepted(engine.playCard(action.playerId, action.cardId, action.targetId));
+
+    case 'answer':
+      return accepted(engine.answer(action.playerId, action.answer));
+  }
+}
+
+/**
+ * Records the actions taken through an engine and a snapshot of it after each of them.
+ * States are the engine's immer snapshots, so unchanged parts are shared between
+ * entries. Acting after stepping back starts a new branch; the old one is kept.
+ */
+export class GameHistory {
+  private readonly entries = new Map<number, HistoryEntry>();
+  private readonly children = new Map<number, number[]>();
+  private nextId = 0;
+  private cursor: number;
+  private head: number;
+
+  constructor(readonly engine: GameEngine) {
+    this.cursor = this.head = this.add(undefined, engine.snapshot()).id;
+  }
+
+  get state(): GameState {
+    return this.engine.state;
+  }
+
+  get current(): HistoryEntry {
+    return this.entries.get(this.cursor)!;
+  }
+
+  get canUndo(): boolean {
+    return this.current.parentId !== undefined;
+  }
+
+  get canRedo(): boolean {
+    return this.cursor !== this.head;
+  }
+
+  /**
+   * Runs the action and records the resulting state. Rejected actions are not recorded.
+   */
+  perform(action: GameAction): boolean {
+    if (!applyAction(this.engine, action)) {
+      return false;
+    }
+
+    this.cursor = this.head = this.add(action, this.engine.snapshot(), this.cursor).id;
+    return true;
+  }
+
+  undo(): boolean {
+    const { parentId } = this.current;
+    if (parentId === undefined) {
+      return false;
+    }
+    this.moveTo(parentId);
+    return true;
+  }
+
+  redo(): boolean {
+    if (!this.canRedo) {
+      return false;
+    }
+    const line = this.timeline();
+    this.moveTo(line[line.findIndex(entry => entry.id === this.cursor) + 1].id);
+    return true;
+  }
+
+  /**
+   * Moves to the first recorded state of the turn on the current branch.
+   */
+  jumpToTurn(turn: number): boolean {
+    const entry = this.timeline().find(e => e.state.turn === turn);
+    if (!entry) {
+      return false;
+    }
+    this.moveTo(entry.id);
+    return true;
+  }
+
+  /** Entries from the initial state to the end of the current branch. */
+  timeline(): HistoryEntry[] {
+    const line: HistoryEntry[] = [];
+    for (let entry: HistoryEntry | undefined = this.entries.get(this.head); entry;
+      entry = entry.parentId === undefined ? undefined : this.entries.get(entry.parentId)) {
+      line.unshift(entry);
+    }
+    return line;
+  }
+
+  /** The last entry of every branch. */
+  branches(): HistoryEntry[] {
+    return [...this.entries.values()].filter(entry => !this.children.has(entry.id));
+  }
+
+  /**
+   * Moves to any recorded entry. When it is not on the current branch, the branch
+   * continues through its most recent actions.
+   */
+  checkout(id: number): void {
+    if (!this.entries.has(id)) {
+      throw new Error(`Unknown history entry: ${id}`);
+    }
+
+    if (!this.timeline().some(entry => entry.id === id)) {
+      let head = id;
+      for (let next = this.children.get(head); next; next = this.children.get(head)) {
+        head = next[next.length - 1];
+      }
+      this.head = head;
+    }
+    this.moveTo(id);
+  }
+
+  private moveTo(id: number): void {
+    this.cursor = id;
+    this.engine.restore(this.current);
+  }
+
+  private add(action: GameAction | undefined, snapshot: EngineSnapshot, parentId?: number): HistoryEntry {
+    const entry: HistoryEntry = { ...snapshot, id: this.nextId++, parentId, action };
+    this.entries.set(entry.id, entry);
+    if (parentId !== undefined) {
+      this.children.set(parentId, [...(this.children.get(parentId) ?? []), entry.id]);
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import { CardDefinition } from '../content/schema';
+import { GameState } from '../effects/Effect';
+import { Replay, ReplayRecorder, ReplaySetup, hashState, replay } from './Replay';
+
+const bolt = (id: string): CardDefinition => ({
+  id,
+  name: 'Wild Bolt',
+  cost: 0,
+  effects: [{ type: 'damage', amount: 4, target: 'randomEnemy' }]
+});
+
+const setup: ReplaySetup = {
+  seed: 42,
+  decks: {
+    'p1': [bolt('b1'), bolt('b2'), bolt('b3')],
+    'p2': [bolt('b4'), bolt('b5'), bolt('b6')],
+    'p3': [bolt('b7'), bolt('b8'), bolt('b9')]
+  },
+  health: 30,
+  drawCount: 2
+};
+
+const record = (): { replay: Replay; state: GameState } => {
+  const recorder = new ReplayRecorder(setup);
+  recorder.perform({ type: 'start' });
+  recorder.perform({ type: 'playCard', playerId: 'p1', cardId: 'p1-2' });
+  recorder.perform({ type: 'playCard', playerId: 'p1', cardId: 'p1-1' });
+  recorder.perform({ type: 'endTurn' });
+  recorder.perform({ type: 'playCard', playerId: 'p2', cardId: 'p2-2' });
+  return { replay: recorder.toReplay(), state: recorder.engine.state };
+};
+
+describe('Replays', () => {
+  it('should rebuild the recorded game exactly', () => {
+    const recorded = record();
+    const result = replay(JSON.parse(JSON.stringify(recorded.replay)));
+
+    expect(recorded.replay.hashes).to.have.length(5);
+    expect(result.success).to.be.true;
+    expect(result.success === true && hashState(result.state)).to.equal(hashState(recorded.state));
+  });
+
+  it('should give every copy in a deck its own instance', () => {
+    const copies: ReplaySetup = { seed: 1, decks: { 'p1': [bolt('bolt'), bolt('bolt')], 'p2': [bolt('bolt')] }, health: 30, drawCount: 2 };
+    const recorder = new ReplayRecorder(copies);
+    recorder.perform({ type: 'start' });
+    recorder.perform({ type: 'playCard', playerId: 'p1', cardId: 'p1-0' });
+
+    const { hand, discardPile } = recorder.engine.state.players['p1'];
+    expect(hand.map(c => c.id)).to.deep.equal(['p1-1']);
+    expect(discardPile[0]).to.include({ id: 'p1-0', definitionId: 'bolt', upgrades: 0 });
+    expect(replay(JSON.parse(JSON.stringify(recorder.toReplay()))).success).to.be.true;
+
+    const clash = replay({ ...recorder.toReplay(), decks: { ...copies.decks, 'p2': [{ ...bolt('bolt'), cost: 1 }] } });
+    expect(clash.success === false && clash.reason === 'invalid-deck' && clash.errors[0])
+      .to.deep.equal({ path: 'decks.p2[0]', message: 'Card bolt differs from an earlier copy' });
+  });
+
+  it('should report the first action whose state differs', () => {
+    const { replay: recorded } = record();
+    const tampered = { ...recorded, hashes: recorded.hashes.map((hash, i) => i >= 2 ? '00000000' : hash) };
+
+    const result = replay(tampered);
+    expect(result.success).to.be.false;
+    expect(result.success === false && 'index' in result && result.index).to.equal(2);
+    expect(result.success === false && result.reason).to.equal('hash-mismatch');
+
+    const reseeded = replay({ ...recorded, seed: 7 });
+    expect(reseeded.success === false && 'index' in reseeded && reseeded.index).to.be.a('number');
+  });
+
+  it('should report recorded actions the engine rejects', () => {
+    const { replay: recorded } = record();
+    const actions = recorded.actions.map((action, i) => i === 1 ? { ...action, cardId: 'p3-2' } : action);
+    const result = replay({ ...recorded, actions });
+
+    expect(result.success === false && result.reason).to.equal('rejected');
+    expect(result.success === false && 'index' in result && result.index).to.equal(1);
+  });
+
+  it('should report invalid decks instead of replaying them', () => {
+    const { replay: recorded } = record();
+    const decks = { ...recorded.decks, 'p2': [bolt('b4'), { ...bolt('b5'), effects: [{ type: 'teleport' }] }] };
+    const result = replay({ ...recorded, decks });
+
+    expect(result.success === false && result.reason).to.equal('invalid-deck');
+    expect(result.success === false && result.reason === 'invalid-deck' && result.errors[0].path).to.match(/^decks\.p2\[1\]\.effects\[0\]/);
+    expect(() => new ReplayRecorder({ ...setup, decks })).to.throw(/Invalid replay decks: decks\.p2\[1\]/);
+  });
+
+  it('should replay answered choices and reject actions taken while one is pending', () => {
+    const sift: CardDefinition = { id: 'sift', name: 'Sift', cost: 0, effects: [{ type: 'discard', count: 1 }] };
+    const recorder = new ReplayRecorder({ seed: 3, decks: { 'p1': [bolt('b1'), sift], 'p2': [bolt('b2')] }, health: 30, drawCount: 2 });
+    recorder.perform({ type: 'start' });
+    recorder.perform({ type: 'playCard', playerId: 'p1', cardId: 'p1-1' });
+    expect(recorder.perform({ type: 'endTurn' })).to.be.false;
+    expect(recorder.perform({ type: 'answer', playerId: 'p2', answer: ['p1-0'] })).to.be.false;
+    recorder.perform({ type: 'answer', playerId: 'p1', answer: ['p1-0'] });
+
+    const recorded = recorder.toReplay();
+    expect(replay(recorded).success).to.be.true;
+
+    const actions = [...recorded.actions.slice(0, 2), { type: 'endTurn' as const }, ...recorded.actions.slice(2)];
+    const result = replay({ ...recorded, actions });
+    expect(result.success === false && result.reason === 'rejected' && result.index).to.equal(2);
+  });
+
+  it('should refuse unknown versions', () => {
+    expect(() => replay({ ...record().replay, version: 99 })).to.throw(/Unsupported replay version: 99/);
+  });
+});
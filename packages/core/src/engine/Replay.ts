@@ -0,0 +1,244 @@
+import { Effect, GameState } from '../effects/Effect';
+import { EffectRegistryTag, ResourceRegistryTag, defaultContext } from '../effects/Context';
+import { SeededRandomGenerator } from '../effects/Random';
+import { EffectRegistry } from '../effects/EffectRegistry';
+import { ResourceRegistry } from '../effects/Resource';
+import { CardDefinition } from '../content/schema';
+import { ContentError, formatPath, loadDefinitions } from '../content/loader';
+import { CardLibrary } from '../content/library';
+import { GameEngine, GameEngineOptions } from './GameEngine';
+import { GameAction, applyAction } from './GameHistory';
+
+export const REPLAY_VERSION = 2;
+
+/**
+ * Everything needed to rebuild the start of a game.
+ */
+export interface ReplaySetup {
+  readonly seed: number;
+  /**
+   * Starting deck of every player, in seat order. Cards are drawn from the end. Each
+   * copy is its own card instance, with the id `<player>-<position>`, e.g. `p1-0`.
+   */
+  readonly decks: Readonly<Record<string, CardDefinition[]>>;
+  /** Starting and maximum health of every player. */
+  readonly health: number;
+  readonly drawCount?: number;
+  readonly handLimit?: number;
+}
+
+export interface Replay extends ReplaySetup {
+  readonly version: number;
+  readonly actions: GameAction[];
+  /** Hash of the state after each action, see `hashState`. */
+  readonly hashes: string[];
+}
+
+/**
+ * Engine options that cannot be stored in a replay, such as custom registries.
+ * They have to match the ones the replay was recorded with.
+ */
+export interface ReplayOptions extends Omit<GameEngineOptions, 'turnOrder' | 'drawCount' | 'handLimit' | 'random'> {
+  readonly registry?: EffectRegistry;
+}
+
+export type ReplayResult =
+  | { readonly success: true; readonly state: GameState }
+  | {
+      readonly success: false;
+      /** Index of the first action that was rejected or left a different state. */
+      readonly index: number;
+      readonly action: GameAction;
+      readonly reason: 'rejected' | 'hash-mismatch';
+      readonly expected?: string;
+      readonly actual?: string;
+      /** State before the failed action. */
+      readonly state: GameState;
+    }
+  | {
+      readonly success: false;
+      /** A starting deck is not valid content, so no action was replayed. */
+      readonly reason: 'invalid-deck';
+      readonly errors: ContentError[];
+    };
+
+function canonical(value: unknown): string {
+  if (value instanceof Effect) {
+    return JSON.stringify(value.description);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter(key => record[key] !== undefined && typeof record[key] !== 'function')
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonical(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Stable FNV-1a hash of a state. Key order does not matter; effects count by their description.
+ */
+export function hashState(state: GameState): string {
+  let hash = 0x811c9dc5;
+  for (const char of canonical(state)) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Validates every starting deck as card content, with the resources of the engine.
+ * Error paths point into the setup, e.g. `decks.p1[0].cost`. Copies of a card have to share one definition.
+ */
+function loadDecks(
+  setup: ReplaySetup,
+  registry: EffectRegistry,
+  resources: ResourceRegistry
+): { success: true; decks: Record<string, CardDefinition[]>; library: CardLibrary } | { success: false; errors: ContentError[] } {
+  const decks: Record<string, CardDefinition[]> = {};
+  /** The first copy of every card as written, and as validated. */
+  const definitions = new Map<string, { readonly source: CardDefinition; readonly definition: CardDefinition }>();
+  const errors: ContentError[] = [];
+  for (const [id, deck] of Object.entries(setup.decks)) {
+    decks[id] = [];
+    deck.forEach((card, index) => {
+      const path = formatPath(['decks', id, index]);
+      const known = definitions.get(card.id);
+      if (known) {
+        if (canonical(known.source) === canonical(card)) {
+          decks[id].push(known.definition);
+        } else {
+          errors.push({ path, message: `Card ${card.id} differs from an earlier copy` });
+        }
+        return;
+      }
+
+      const loaded = loadDefinitions({ cards: [card] }, registry, resources);
+      if (!loaded.success) {
+        errors.push(...loaded.errors.map(error => ({ ...error, path: error.path.replace(/^cards\[0\]/, path) })));
+        return;
+      }
+      definitions.set(card.id, { source: card, definition: loaded.definitions[0] });
+      decks[id].push(loaded.definitions[0]);
+    });
+  }
+  return errors.length > 0 ?
+    { success: false, errors } :
+    { success: true, decks, library: new CardLibrary([...definitions.values()].map(known => known.definition), registry) };
+}
+
+function createEngine(
+  setup: ReplaySetup,
+  options: ReplayOptions
+): { success: true; engine: GameEngine } | { success: false; errors: ContentError[] } {
+  const { registry = defaultContext.provide(EffectRegistryTag), ...engineOptions } = options;
+  const services = options.services ?? defaultContext;
+  const resources = options.resources ?? (services.has(ResourceRegistryTag) ?
+    services.provide(ResourceRegistryTag) :
+    ResourceRegistry.withBuiltins());
+  const loaded = loadDecks(setup, registry, resources);
+  if (!loaded.success) {
+    return loaded;
+  }
+
+  const players = Object.fromEntries(Object.entries(loaded.decks).map(([id, deck]) => [id, {
+    id,
+    health: setup.health,
+    maxHealth: setup.health,
+    hand: [],
+    deck: deck.map((definition, index) => loaded.library.instantiate(definition.id, { id: `${id}-${index}` })),
+    discardPile: [],
+    resources: {}
+  }]));
+
+  const engine = new GameEngine({
+    players,
+    currentPlayer: Object.keys(setup.decks)[0],
+    turn: 1,
+    phase: 'draw'
+  }, {
+    ...engineOptions,
+    drawCount: setup.drawCount,
+    handLimit: setup.handLimit,
+    random: new SeededRandomGenerator(setup.seed)
+  });
+  return { success: true, engine };
+}
+
+/**
+ * Plays a seeded game and records its actions and state hashes as a replay.
+ */
+export class ReplayRecorder {
+  readonly engine: GameEngine;
+  private readonly actions: GameAction[] = [];
+  private readonly hashes: string[] = [];
+
+  /**
+   * Throws when a starting deck is not valid content.
+   */
+  constructor(private readonly setup: ReplaySetup, options: ReplayOptions = {}) {
+    const created = createEngine(setup, options);
+    if (!created.success) {
+      throw new Error(`Invalid replay decks: ${created.errors.map(error => `${error.path}: ${error.message}`).join('; ')}`);
+    }
+    this.engine = created.engine;
+  }
+
+  /**
+   * Runs the action and records it. Rejected actions are not recorded.
+   */
+  perform(action: GameAction): boolean {
+    if (!applyAction(this.engine, action)) {
+      return false;
+    }
+
+    this.actions.push(action);
+    this.hashes.push(hashState(this.engine.state));
+    return true;
+  }
+
+  toReplay(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      ...this.setup,
+      actions: [...this.actions],
+      hashes: [...this.hashes]
+    };
+  }
+}
+
+/**
+ * Rebuilds a game from a replay and checks every recorded state hash. Decks are
+ * validated first; invalid ones are reported instead of replayed.
+ */
+export function replay(data: Replay, options: ReplayOptions = {}): ReplayResult {
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version} (expected ${REPLAY_VERSION})`);
+  }
+
+  const created = createEngine(data, options);
+  if (!created.success) {
+    return { success: false, reason: 'invalid-deck', errors: created.errors };
+  }
+
+  const { engine } = created;
+  for (const [index, action] of data.actions.entries()) {
+    const before = engine.state;
+    if (!applyAction(engine, action)) {
+      return { success: false, index, action, reason: 'rejected', state: before };
+    }
+
+    const actual = hashState(engine.state);
+    if (actual !== data.hashes[index]) {
+      return { success: false, index, action, reason: 'hash-mismatch', expected: data.hashes[index], actual, state: before };
+    }
+  }
+
+  return { success: true, state: engine.state };
+}
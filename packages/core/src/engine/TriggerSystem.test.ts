@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { Card, GameState, PlayerState } from '../effects/Effect';
+import { SimpleEventBus } from '../effects/Context';
+import { ownEvents } from '../effects/Events';
+import { StatusRegistry } from '../effects/Status';
+import { DamageEffect, GainBlockEffect, ResourceEffect } from '../effects/primitives';
+import { GameEngine } from './GameEngine';
+import { TriggerSystem } from './TriggerSystem';
+import { createCard, createPlayer, createState } from '../testing/fixtures';
+
+const card = (id: string): Card => createCard(id, { name: 'Strike', cost: 0, effects: [new DamageEffect(6)] });
+
+const player = (id: string, overrides: Partial<PlayerState> = {}): PlayerState =>
+  createPlayer(id, { deck: [card(`${id}-1`), card(`${id}-2`)], ...overrides });
+
+const createGame = (p1: PlayerState = player('p1'), p2: PlayerState = player('p2')): GameState =>
+  ({ ...createState(p1, p2), phase: 'draw' });
+
+describe('Triggers', () => {
+  it('should react to events raised by effects', () => {
+    const engine = new GameEngine(createGame(), { drawCount: 2 });
+    engine.triggers.register('p1', 'relic:anchor', {
+      event: 'cardDrawn',
+      filter: ownEvents,
+      effect: new GainBlockEffect(1)
+    });
+
+    engine.start();
+    expect(engine.state.players['p1'].block).to.equal(2);
+  });
+
+  it('should fire status and in-hand card triggers', () => {
+    const statuses = StatusRegistry.withBuiltins().register({
+      id: 'thorns',
+      name: 'Thorns',
+      description: 'Deals 2 damage back when attacked',
+      kind: 'buff',
+      triggers: [{ event: 'damageDealt', filter: ownEvents, effect: new DamageEffect(2, 'opponent') }]
+    });
+    const watcher: Card = {
+      ...card('watcher'),
+      triggers: [{ event: 'cardPlayed', effect: ResourceEffect.gain('energy', 1) }]
+    };
+    const state = createGame(player('p1'), player('p2', { statuses: { thorns: { stacks: 1 } }, hand: [watcher] }));
+    const engine = new GameEngine(state, { drawCount: 1, statuses });
+
+    const cardId = engine.start().players['p1'].hand[0].id;
+    engine.playCard('p1', cardId);
+
+    expect(engine.state.players['p2'].health).to.equal(44);
+    expect(engine.state.players['p1'].health).to.equal(48);
+    expect(engine.state.players['p2'].resources['energy']).to.equal(1);
+  });
+
+  it('should stop recursive triggers', () => {
+    const triggers = new TriggerSystem({ maxDepth: 3 });
+    const messages: string[] = [];
+    const engine = new GameEngine(createGame(), { drawCount: 1, triggers, log: m => messages.push(m) });
+    triggers.register('p1', 'relic:mirror', { event: 'blockGained', effect: new GainBlockEffect(1) });
+    triggers.register('p1', 'relic:anchor', { event: 'cardDrawn', effect: new GainBlockEffect(1) });
+
+    engine.start();
+    expect(engine.state.players['p1'].block).to.equal(3);
+    expect(messages.some(m => m.startsWith('Trigger loop stopped at relic:mirror'))).to.be.true;
+  });
+
+  it('should fire simultaneous triggers by priority, then registration order', () => {
+    const triggers = new TriggerSystem();
+    const order: string[] = [];
+    const bus = new SimpleEventBus();
+    bus.subscribe('blockGained', event => order.push(`bus:${(event as { amount: number }).amount}`));
+
+    triggers.register('p1', 'late', { event: 'cardDrawn', effect: new GainBlockEffect(1), priority: 10 });
+    triggers.register('p1', 'first', { event: 'cardDrawn', effect: new GainBlockEffect(2) });
+    triggers.register('p1', 'second', { event: 'cardDrawn', effect: new GainBlockEffect(3) });
+
+    const engine = new GameEngine(createGame(), { drawCount: 1, triggers, eventBus: bus });
+    engine.start();
+    expect(order).to.deep.equal(['bus:2', 'bus:3', 'bus:1']);
+  });
+});
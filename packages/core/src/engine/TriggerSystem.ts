@@ -0,0 +1,125 @@
+import { EffectResult, GameContext, GameState } from '../effects/Effect';
+import { GameEvent, Trigger, TriggerDefinition } from '../effects/Events';
+import { StatePatches, joinPatches, patchesOf } from '../effects/Merge';
+import { statusRegistryOf } from '../effects/Status';
+
+export interface TriggerSystemOptions {
+  /** How deep triggers may react to events raised by other triggers. */
+  readonly maxDepth?: number;
+  /** Upper bound on trigger firings for a single dispatch. */
+  readonly maxFirings?: number;
+}
+
+/**
+ * Matches game events against triggers and resolves their effects. Active triggers are
+ * the registered ones (relics, powers) plus those of the players' statuses and of the
+ * cards in their hands. Matching triggers fire by priority, then in seat order and the
+ * order they were registered.
+ */
+export class TriggerSystem {
+  private readonly registered: Trigger[] = [];
+  private readonly maxDepth: number;
+  private readonly maxFirings: number;
+  private nextId = 1;
+
+  constructor(options: TriggerSystemOptions = {}) {
+    this.maxDepth = options.maxDepth ?? 8;
+    this.maxFirings = options.maxFirings ?? 100;
+  }
+
+  register(owner: string, source: string, definition: TriggerDefinition): () => void {
+    const trigger: Trigger = { ...definition, id: `trigger-${this.nextId++}`, owner, source };
+    this.registered.push(trigger);
+
+    return () => {
+      const index = this.registered.indexOf(trigger);
+      if (index >= 0) {
+        this.registered.splice(index, 1);
+      }
+    };
+  }
+
+  active(context: GameContext): Trigger[] {
+    const registry = statusRegistryOf(context);
+    const derived: Trigger[] = [];
+
+    for (const [playerId, player] of Object.entries(context.gameState.players)) {
+      for (const [status, instance] of Object.entries(player.statuses ?? {})) {
+        if (instance.stacks <= 0) {
+          continue;
+        }
+        registry.get(status).triggers?.forEach((definition, index) => derived.push({
+          ...definition,
+          id: `status:${playerId}:${status}:${index}`,
+          owner: playerId,
+          source: `status:${status}`
+        }));
+      }
+
+      for (const card of player.hand) {
+        card.triggers?.forEach((definition, index) => derived.push({
+          ...definition,
+          id: `card:${card.id}:${index}`,
+          owner: playerId,
+          source: `card:${card.id}`
+        }));
+      }
+    }
+
+    return [...this.registered, ...derived]
+      .map((trigger, order) => ({ trigger, order }))
+      .sort((a, b) => (a.trigger.priority ?? 0) - (b.trigger.priority ?? 0) || a.order - b.order)
+      .map(({ trigger }) => trigger);
+  }
+
+  /**
+   * Fires every trigger matching the events, including triggers reacting to events raised
+   * by other triggers. The returned events are the ones raised by the triggers.
+   */
+  dispatch(events: GameEvent[], context: GameContext): EffectResult {
+    let currentState: GameState = context.gameState;
+    const messages: string[] = [];
+    const raised: GameEvent[] = [];
+    const steps: StatePatches[] = [];
+    let firings = 0;
+
+    const fire = (event: GameEvent, depth: number): void => {
+      const matching = this.active({ ...context, gameState: currentState }).filter(trigger =>
+        trigger.event === event.type &&
+        (!trigger.filter || trigger.filter(event, { ...context, playerId: trigger.owner, gameState: currentState })));
+
+      for (const trigger of matching) {
+        if (depth >= this.maxDepth || firings >= this.maxFirings) {
+          messages.push(`Trigger loop stopped at ${trigger.source}: ${trigger.effect.description}`);
+          return;
+        }
+
+        firings++;
+        const result = trigger.effect.execute({
+          ...context,
+          playerId: trigger.owner,
+          gameState: currentState,
+          event
+        });
+        steps.push(patchesOf(currentState, result));
+        currentState = result.newState;
+        messages.push(...result.messages);
+
+        for (const next of result.events ?? []) {
+          raised.push(next);
+          fire(next, depth + 1);
+        }
+      }
+    };
+
+    events.forEach(event => fire(event, 0));
+
+    return {
+      success: true,
+      newState: currentState,
+      messages,
+      events: raised,
+      ...joinPatches(steps)
+    };
+  }
+}
@@ -0,0 +1,37 @@
+export {
+  GameEngine,
+  type EngineSnapshot,
+  type GameEngineOptions,
+  type PendingPlay,
+  type PlayCardResult,
+  type PlayRejectionReason
+} from './GameEngine';
+
+export {
+  DEFAULT_COST_RESOURCE,
+  normalizeCost,
+  resolveCost,
+  payCost,
+  describeCost,
+  type ResolvedCost
+} from './Cost';
+
+export { TriggerSystem, type TriggerSystemOptions } from './TriggerSystem';
+
+export {
+  GameHistory,
+  applyAction,
+  type GameAction,
+  type HistoryEntry
+} from './GameHistory';
+
+export {
+  REPLAY_VERSION,
+  ReplayRecorder,
+  replay,
+  hashState,
+  type Replay,
+  type ReplayOptions,
+  type ReplayResult,
+  type ReplaySetup
+} from './Replay';
@@ -1,2 +1,4 @@
 export * from './lib/core.js';
 export * from './effects';
+export * from './engine';
+export * from './content';
@@ -0,0 +1,43 @@
+import { Card, GameContext, GameState, PlayerState } from '../effects/Effect';
+
+/**
+ * Builders for the cards, states and contexts tests resolve effects against.
+ * Each one takes overrides for whatever a test cares about.
+ */
+
+export const createCard = (id: string, overrides: Partial<Card> = {}): Card => ({
+  id,
+  name: id,
+  cost: 1,
+  effects: [],
+  tags: [],
+  ...overrides
+});
+
+export const createPlayer = (id: string, overrides: Partial<PlayerState> = {}): PlayerState => ({
+  id,
+  health: 50,
+  maxHealth: 50,
+  hand: [],
+  deck: [],
+  discardPile: [],
+  resources: {},
+  ...overrides
+});
+
+/** A main phase with the players keyed by id; the first one is the current player. */
+export const createState = (...players: PlayerState[]): GameState => ({
+  players: Object.fromEntries(players.map(player => [player.id, player])),
+  currentPlayer: players[0].id,
+  turn: 1,
+  phase: 'main'
+});
+
+/** Context for the current player of the state. */
+export const createContext = (gameState: GameState, overrides: Partial<GameContext> = {}): GameContext => ({
+  playerId: gameState.currentPlayer,
+  gameState,
+  random: () => 0.5,
+  log: () => {},
+  ...overrides
+});